@@ -0,0 +1,234 @@
+/**
+ * /review-ci — Non-interactive parallel review for CI pipelines.
+ *
+ * Takes the target from flags instead of pickers, runs the same engine as
+ * /parallel-review (or /parallel-review-lite with --lite), writes the report
+ * plus JSON and SARIF results to disk and gates on the findings. Meant for
+ * print mode through ./review-ci.sh, where the process exit code is:
+ *
+ *   0 → gate passed (or nothing to review)
+ *   1 → findings at or above --fail-on remain
+ *   2 → the review could not run (bad flags, no models, every agent failed,
+ *       estimate over project.yml review.budget, an unexpected error)
+ *
+ *   /review-ci --repo my-repo --base main --head feat/x
+ *   /review-ci --repo my-repo --pr 42 --fail-on warning --min-consensus majority
+ *   /review-ci https://github.com/owner/repo/pull/42 --out build/review
+ *   /review-ci --repo my-repo --staged          (e.g. from a pre-commit hook)
+ *   /review-ci --repo my-repo v1.2..v1.3        (`...` diffs from the merge base)
+ *
+ * Flags:
+ *   --repo NAME            repo under the repos path (default: the only one)
+ *   --base REF / --head REF  range to review, as base...head (default base:
+ *                          open PR base, upstream parent, repos[].base_branch,
+ *                          then master/main; default head: HEAD)
+ *   --pr REF               PR number, owner/repo#number or URL instead of a range
+ *   --staged / --working-tree / --last N
+ *                          staged, uncommitted (incl. untracked) or last N commits
+ *   --out DIR              output directory (default: .pi/reviews/ci)
+ *   --fail-on LEVEL        critical | warning | suggestion | none (default: critical)
+ *   --min-consensus LEVEL  single | minority | majority | unanimous (default: single)
+ *   --lite                 use the /parallel-review-lite roster and prompts
+ *   --personas             specialist personas (also project.yml review.personas);
+ *                          --min-consensus then counts within each category
+ *   --verify               verifier agent checks low-consensus findings (also
+ *                          review.verify); refuted findings never block
+ */
+
+import * as path from "node:path";
+import { type ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { runReview } from "./review-engine/engine";
+import { writeReviewExport, type ConsensusLevel } from "./review-engine/export";
+import {
+  blockingFindings,
+  CONSENSUS_LEVELS,
+  DEFAULT_GATE,
+  describeGate,
+  FAIL_ON_VALUES,
+  formatGateSummary,
+  type FailOn,
+  type GateOptions,
+} from "./review-engine/gate";
+import { getReviewModels } from "./review-engine/models";
+import { planPersonas } from "./review-engine/personas";
+import { PARALLEL_REVIEW_LITE_STRATEGY, PARALLEL_REVIEW_STRATEGY } from "./review-engine/strategies";
+import {
+  parseLocalScope,
+  parsePrReference,
+  parseRefRange,
+  resolveTargetFromRefs,
+  type LocalScope,
+  type TargetRefs,
+} from "./review-engine/target";
+
+const DEFAULT_OUT_DIR = path.join(".pi", "reviews", "ci");
+
+const EXIT_PASSED = 0;
+const EXIT_BLOCKED = 1;
+const EXIT_ERROR = 2;
+
+interface CiOptions {
+  refs: TargetRefs;
+  outDir: string;
+  gate: GateOptions;
+  lite: boolean;
+  personas: boolean;
+  verify: boolean;
+}
+
+const VALUE_FLAGS = new Set(["repo", "base", "head", "pr", "last", "out", "fail-on", "min-consensus"]);
+
+function parseCiArgs(args: string): CiOptions | { error: string } {
+  const tokens = args.trim().split(/\s+/).filter(Boolean);
+  const values = new Map<string, string>();
+  let lite = false;
+  let personas = false;
+  let verify = false;
+  let scope: LocalScope | undefined;
+  let direct = false;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === "--lite") { lite = true; continue; }
+    if (token === "--personas") { personas = true; continue; }
+    if (token === "--verify") { verify = true; continue; }
+    if (token === "--staged") { scope = { kind: "staged" }; continue; }
+    if (token === "--working-tree") { scope = { kind: "working" }; continue; }
+    if (token.startsWith("--")) {
+      const [name, inline] = token.slice(2).split(/=(.*)/s);
+      if (!VALUE_FLAGS.has(name)) return { error: `Unknown flag ${token}.` };
+      const value = inline ?? tokens[++i];
+      if (!value || value.startsWith("--")) return { error: `${token} needs a value.` };
+      values.set(name, value);
+      continue;
+    }
+    // Bare argument: a PR reference, a local scope, a ref range or a repo name, like /parallel-review
+    const range = parseRefRange(token);
+    if (parsePrReference(token)) values.set("pr", token);
+    else if (parseLocalScope(token)) scope = parseLocalScope(token)!;
+    else if (range) {
+      values.set("base", range.base);
+      values.set("head", range.head);
+      direct = range.direct;
+    }
+    else values.set("repo", token);
+  }
+
+  const failOn = (values.get("fail-on") ?? DEFAULT_GATE.failOn) as FailOn;
+  if (!FAIL_ON_VALUES.includes(failOn)) return { error: `--fail-on must be one of ${FAIL_ON_VALUES.join(", ")}.` };
+  const minConsensus = (values.get("min-consensus") ?? DEFAULT_GATE.minConsensus) as ConsensusLevel;
+  if (!CONSENSUS_LEVELS.includes(minConsensus)) return { error: `--min-consensus must be one of ${CONSENSUS_LEVELS.join(", ")}.` };
+  if (values.has("last")) {
+    scope = parseLocalScope(`last ${values.get("last")}`) ?? undefined;
+    if (!scope) return { error: `--last takes a commit count, got '${values.get("last")}'.` };
+  }
+  const targetKinds = [values.has("pr"), values.has("base") || values.has("head"), scope !== undefined].filter(Boolean).length;
+  if (targetKinds > 1) return { error: "Use only one of --pr, --base/--head and --staged/--working-tree/--last." };
+
+  return {
+    refs: { repo: values.get("repo"), base: values.get("base"), head: values.get("head"), pr: values.get("pr"), direct, scope },
+    outDir: values.get("out") ?? DEFAULT_OUT_DIR,
+    gate: { failOn, minConsensus },
+    lite,
+    personas,
+    verify,
+  };
+}
+
+export default function (pi: ExtensionAPI) {
+  let activeAbortController: AbortController | null = null;
+
+  pi.registerCommand("review-ci", {
+    description: "Non-interactive parallel review: flags in, report + JSON/SARIF out, exit code gates merges",
+    handler: async (args, ctx) => {
+      // Print mode has no UI: progress goes to stderr and the outcome to the exit code
+      const log = (message: string, level: "info" | "warning" | "error" = "info") => {
+        if (ctx.hasUI) ctx.ui.notify(message, level);
+        else process.stderr.write(`${message}\n`);
+      };
+      const finish = (code: number) => {
+        if (!ctx.hasUI) process.exitCode = code;
+      };
+      // Fail closed: pi catches a throwing handler and print mode still exits 0,
+      // so anything that ends the run before finish() must gate as an error
+      finish(EXIT_ERROR);
+
+      if (activeAbortController) {
+        log("A review is already running.", "warning");
+        return;
+      }
+
+      const options = parseCiArgs(args);
+      if ("error" in options) {
+        log(`${options.error} See /help for /review-ci flags.`, "error");
+        return finish(EXIT_ERROR);
+      }
+
+      const target = await resolveTargetFromRefs(pi, ctx.cwd, options.refs);
+      if ("error" in target) {
+        log(target.error, "error");
+        return finish(EXIT_ERROR);
+      }
+      if (target.changedFiles.length === 0) {
+        log(`No changes in ${target.label} — nothing to review.`);
+        return finish(EXIT_PASSED);
+      }
+
+      const strategy = options.lite ? PARALLEL_REVIEW_LITE_STRATEGY : PARALLEL_REVIEW_STRATEGY;
+      const { models: reviewModels, uncovered } = planPersonas(ctx.cwd, getReviewModels(ctx, strategy), options.personas);
+      if (reviewModels.length === 0) {
+        log("No AI models available. Check your API key configuration.", "error");
+        return finish(EXIT_ERROR);
+      }
+      if (uncovered.length > 0) log(`Personas not covered by the roster: ${uncovered.map((p) => p.title).join(", ")}`, "warning");
+
+      log(`🚀 ${target.label} — ${target.changedFiles.length} file(s), ${reviewModels.length} agent(s) · ${describeGate(options.gate)}`);
+      activeAbortController = new AbortController();
+      try {
+        const run = await runReview(ctx, target, reviewModels, strategy, activeAbortController.signal, null, { verify: options.verify });
+        if (run.cancelled) {
+          log("Review cancelled.", "warning");
+          return finish(EXIT_ERROR);
+        }
+        if (run.budgetStopped) {
+          log(run.report.trim(), "error");
+          return finish(EXIT_ERROR);
+        }
+        if (!run.record) {
+          // Everything matched review.ignore_paths, or the history save failed
+          if (run.results.length === 0) {
+            log(run.report.trim());
+            return finish(EXIT_PASSED);
+          }
+          log("Review finished but could not be saved; no results written.", "error");
+          return finish(EXIT_ERROR);
+        }
+
+        const record = run.record;
+        const outDir = path.resolve(ctx.cwd, options.outDir);
+        writeReviewExport(record, "markdown", path.join(outDir, "review.md"));
+        writeReviewExport(record, "json", path.join(outDir, "review.json"));
+        writeReviewExport(record, "sarif", path.join(outDir, "review.sarif"));
+        log(`📄 Report, JSON and SARIF written to ${path.relative(ctx.cwd, outDir) || "."}/`);
+
+        if (ctx.hasUI) {
+          pi.sendMessage({
+            customType: "parallel-review-report",
+            content: run.report,
+            display: true,
+            details: { reviewId: record.id, label: target.label, agents: run.results.length, findings: run.findings.length },
+          });
+        }
+
+        if (!record.results.some((r) => r.output)) {
+          log(`Every agent failed — no review result to gate on (review ${record.id}).`, "error");
+          return finish(EXIT_ERROR);
+        }
+        const blocking = blockingFindings(record, options.gate);
+        log(formatGateSummary(record, options.gate, blocking).trimEnd(), blocking.length > 0 ? "error" : "info");
+        return finish(blocking.length > 0 ? EXIT_BLOCKED : EXIT_PASSED);
+      } finally {
+        activeAbortController = null;
+      }
+    },
+  });
+}
@@ -0,0 +1,206 @@
+import { spawn } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Message } from "@mariozechner/pi-ai";
+import { JSON_MODE_EXTENSION } from "./json-mode";
+import type { ModelSelection, ReviewMode } from "./types";
+
+// ─── Temp file helpers ────────────────────────────────────────────────────────
+
+export function writeTempFile(prefix: string, name: string, content: string): { dir: string; filePath: string } {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  const filePath = path.join(tmpDir, name.replace(/[^\w.-]+/g, "_"));
+  fs.writeFileSync(filePath, content, { encoding: "utf-8", mode: 0o600 });
+  return { dir: tmpDir, filePath };
+}
+
+export function cleanupTempFile(dir: string, filePath: string): void {
+  try { fs.unlinkSync(filePath); } catch {}
+  try { fs.rmdirSync(dir); } catch {}
+}
+
+// ─── AbortSignal helpers ──────────────────────────────────────────────────────
+
+/** Combines multiple AbortSignals — aborts when ANY of them aborts. */
+export function anySignal(signals: AbortSignal[]): AbortSignal {
+  // Use native AbortSignal.any if available (Node 20+)
+  if (typeof (AbortSignal as any).any === "function") {
+    return (AbortSignal as any).any(signals);
+  }
+  const controller = new AbortController();
+  for (const sig of signals) {
+    if (sig.aborted) { controller.abort(sig.reason); return controller.signal; }
+    sig.addEventListener("abort", () => controller.abort(sig.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+// ─── Agent execution (pi subprocess in JSON mode) ────────────────────────────
+
+/** Final assistant text from a pi JSON-mode message stream. */
+export function getFinalOutput(messages: Message[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role === "assistant") {
+      for (const part of msg.content) {
+        if (part.type === "text") return part.text;
+      }
+    }
+  }
+  return "";
+}
+
+export interface ReviewAgentRunOptions {
+  cwd: string;
+  model: ModelSelection;
+  mode: ReviewMode;
+  diff: string;
+  /** Tools mode: path of the diff temp file the agent should read. */
+  diffFilePath?: string;
+  changedFiles: string[];
+  systemPromptPath: string;
+  /**
+   * `diff` is one part of a larger diff split by chunking.ts (inline mode) or
+   * one workspace package's slice of it (monorepo reviews, both modes).
+   */
+  chunk?: { index: number; total: number; files: string[]; packageName?: string; context?: string };
+  signal?: AbortSignal;
+  /** Called with each assistant message as it ends — live cost tracking. */
+  onMessage?: (message: Message) => void;
+  /** The provider has native JSON output (see json-mode.ts); inline reviews then run without tools and use it. */
+  jsonMode?: boolean;
+  /** Inline mode: memory and code context for this chunk (see context.ts), placed before the diff. */
+  contextPack?: string;
+}
+
+export interface ReviewAgentRun {
+  messages: Message[];
+  exitCode: number;
+  stderr: string;
+}
+
+export function buildReviewPrompt(options: Pick<ReviewAgentRunOptions, "model" | "mode" | "diff" | "diffFilePath" | "changedFiles" | "chunk" | "contextPack">): string {
+  const { model, mode, diff, diffFilePath, changedFiles, chunk, contextPack } = options;
+  // Role from project.yml review.models — an angle to emphasise, not a filter.
+  // Persona runs get their focus from the system prompt instead.
+  const role = model.role && !model.persona
+    ? `You are reviewing as the team's ${model.role}: give that angle extra attention, but still report any other real issue.\n\n`
+    : "";
+  const context = chunk?.context ? `${chunk.context}\n\n` : "";
+  if (mode === "tools") {
+    const files = chunk?.packageName && chunk.total > 1
+      ? `It covers ${chunk.files.length} of the ${changedFiles.length} changed files: ${chunk.files.join(", ")}. Only report findings for those files.`
+      : `Changed files: ${changedFiles.join(", ")}.`;
+    return `${role}${context}Review the code diff at ${diffFilePath}. ${files} Read the diff file and the changed files to understand context. Output your findings as JSON only.`;
+  }
+  const scope = chunk && chunk.total > 1
+    ? `Review part ${chunk.index + 1} of ${chunk.total} of a larger diff (${changedFiles.length} files changed in total). `
+      + `This part covers: ${chunk.files.join(", ")}. Only report findings for code shown in this part.`
+    : `Review this code diff (${changedFiles.length} files changed: ${changedFiles.join(", ")}).`;
+  return `${role}${context}${contextPack ?? ""}${scope}\n\nOutput your findings as JSON only — no explanation, no markdown fences.\n\n\`\`\`diff\n${diff}\n\`\`\``;
+}
+
+/** Read-only repo tools for agents that explore the repo (tools mode, verification). */
+export const READ_ONLY_TOOLS = "read,grep,find,ls,bash";
+
+const JSON_MODE_ARGS = ["--no-tools", "-e", JSON_MODE_EXTENSION];
+
+export async function runReviewAgent(options: ReviewAgentRunOptions): Promise<ReviewAgentRun> {
+  const { cwd, model, mode, systemPromptPath, signal, onMessage, jsonMode } = options;
+  return runPiAgent(cwd, [
+    "--provider", model.provider,
+    "--model", model.modelId,
+    ...(mode === "tools" ? ["--tools", READ_ONLY_TOOLS] : jsonMode ? JSON_MODE_ARGS : []),
+    "--append-system-prompt", systemPromptPath,
+    buildReviewPrompt(options),
+  ], signal, onMessage);
+}
+
+// ─── Repair turn ──────────────────────────────────────────────────────────────
+
+/** Previous answers longer than this are cut in the repair prompt; the model rewrites, it does not re-review. */
+const MAX_REPAIR_ECHO_CHARS = 30_000;
+
+export function buildRepairPrompt(previousOutput: string, errors: string[]): string {
+  const echo = previousOutput.length > MAX_REPAIR_ECHO_CHARS
+    ? `${previousOutput.slice(0, MAX_REPAIR_ECHO_CHARS)}\n… (truncated)`
+    : previousOutput;
+  return `Your previous review answer could not be used: it does not match the required JSON schema.\n\n`
+    + `Validation errors:\n${errors.map((e) => `- ${e}`).join("\n")}\n\n`
+    + `Your previous answer:\n<previous-answer>\n${echo || "(empty)"}\n</previous-answer>\n\n`
+    + `Reply with the same review as one JSON object matching the schema in your instructions. `
+    + `Keep your findings; only fix the format. Raw JSON only — no markdown fences, no text before or after.`;
+}
+
+/**
+ * One repair turn for an answer that failed schema validation: a fresh pi
+ * process with the same system prompt, no tools, the errors and the previous
+ * answer. The review itself is not redone.
+ */
+export async function runRepairAgent(
+  options: Pick<ReviewAgentRunOptions, "cwd" | "model" | "systemPromptPath" | "signal" | "onMessage" | "jsonMode">,
+  previousOutput: string,
+  errors: string[],
+): Promise<ReviewAgentRun> {
+  const { cwd, model, systemPromptPath, signal, onMessage, jsonMode } = options;
+  return runPiAgent(cwd, [
+    "--provider", model.provider,
+    "--model", model.modelId,
+    ...(jsonMode ? JSON_MODE_ARGS : ["--no-tools"]),
+    "--append-system-prompt", systemPromptPath,
+    buildRepairPrompt(previousOutput, errors),
+  ], signal, onMessage);
+}
+
+/** One `pi -p` run in JSON mode with `args` appended; collects its messages. */
+export function runPiAgent(
+  cwd: string,
+  args: string[],
+  signal?: AbortSignal,
+  onMessage?: (message: Message) => void,
+): Promise<ReviewAgentRun> {
+  return new Promise((resolve) => {
+    const proc = spawn("pi", ["--mode", "json", "-p", "--no-session", ...args], { cwd, shell: false, stdio: ["ignore", "pipe", "pipe"] });
+    let buffer = "";
+    const messages: Message[] = [];
+    let stderr = "";
+
+    const processLine = (line: string) => {
+      if (!line.trim()) return;
+      try {
+        const event = JSON.parse(line);
+        if (event.type === "message_end" && event.message) {
+          messages.push(event.message as Message);
+          if (event.message.role === "assistant") onMessage?.(event.message as Message);
+        }
+        if (event.type === "tool_result_end" && event.message) messages.push(event.message as Message);
+      } catch {}
+    };
+
+    proc.stdout.on("data", (data: Buffer) => {
+      buffer += data.toString();
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) processLine(line);
+    });
+
+    proc.stderr.on("data", (data: Buffer) => { stderr += data.toString(); });
+
+    proc.on("close", (code: number | null) => {
+      if (buffer.trim()) processLine(buffer);
+      resolve({ messages, exitCode: code ?? 1, stderr });
+    });
+
+    proc.on("error", () => resolve({ messages, exitCode: 1, stderr: stderr || "Failed to spawn pi process" }));
+
+    if (signal) {
+      const kill = () => {
+        proc.kill("SIGTERM");
+        setTimeout(() => { if (!proc.killed) proc.kill("SIGKILL"); }, 5000);
+      };
+      if (signal.aborted) kill();
+      else signal.addEventListener("abort", kill, { once: true });
+    }
+  });
+}
@@ -0,0 +1,120 @@
+import * as path from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { loadProjectConfig } from "./config";
+import { isIgnoredPath } from "./rules";
+import type { ConsolidatedFinding, ReviewRecord } from "./types";
+
+// ─── Auto-fix ─────────────────────────────────────────────────────────────────
+//
+// /review-fix hands picked findings of the last review in the session to the
+// main agent, one per turn. The agent reports each outcome through the
+// review_fix_result tool; the linter and test command from project.yml then
+// run in the repo when agent.execution allows it.
+
+const CHECK_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface FixSettings {
+  protectedFiles: string[];
+  linter?: string;
+  testCommand?: string;
+}
+
+/** Protected files always; linter / tests only when agent.execution allows running them. */
+export function loadFixSettings(cwd: string): FixSettings {
+  const config = loadProjectConfig(cwd);
+  const execution = config?.agent?.execution;
+  const protectedFiles = config?.agent?.protected_files;
+  return {
+    protectedFiles: Array.isArray(protectedFiles) ? protectedFiles.filter((p) => typeof p === "string" && p) : [],
+    linter: execution?.run_linter ? config?.conventions?.linter || undefined : undefined,
+    testCommand: execution?.run_tests ? config?.conventions?.test_command || undefined : undefined,
+  };
+}
+
+/** Whether `filePath` (absolute, or relative to the repo) is one of agent.protected_files. */
+export function isProtectedFile(repoCwd: string, filePath: string, protectedFiles: string[]): boolean {
+  if (protectedFiles.length === 0) return false;
+  const relative = path.relative(repoCwd, path.resolve(repoCwd, filePath));
+  if (relative.startsWith("..")) return false;
+  return isIgnoredPath(relative.split(path.sep).join("/"), protectedFiles);
+}
+
+export function buildFixPrompt(
+  record: ReviewRecord,
+  finding: ConsolidatedFinding,
+  position: { index: number; total: number },
+  repoCwd: string,
+  settings: FixSettings,
+): string {
+  let text = `Apply this code review fix (${position.index + 1} of ${position.total}, review \`${record.id}\`) in the repo at \`${repoCwd}\`:\n\n`;
+  text += `\`${finding.file}:${finding.line}\` — **${finding.title}** (${finding.severity} · ${finding.category})\n\n${finding.description}\n`;
+  if (finding.suggestion) text += `\nSuggested change:\n\`\`\`\n${finding.suggestion}\n\`\`\`\n`;
+  text += `\nRules:\n`;
+  text += `- Read the surrounding code first; the line number may have drifted since the review.\n`;
+  text += `- Change only what this finding needs — other findings are handled separately.\n`;
+  if (settings.protectedFiles.length > 0) {
+    text += `- Never modify protected files: ${settings.protectedFiles.join(", ")}.\n`;
+  }
+  if (settings.linter || settings.testCommand) text += `- Don't run the linter or tests — they run automatically afterwards.\n`;
+  text += `- When done, call \`review_fix_result\` with status "applied", or "failed" and a short reason if it can't be applied safely (e.g. the suggestion no longer matches the code).\n`;
+  return text;
+}
+
+export interface CheckResult {
+  name: "lint" | "tests";
+  ok: boolean;
+  output: string;
+}
+
+/** Run the configured linter and test command in the repo; stops at the first failure. */
+export async function runFixChecks(pi: ExtensionAPI, repoCwd: string, settings: FixSettings): Promise<CheckResult[]> {
+  const checks: Array<{ name: CheckResult["name"]; command?: string }> = [
+    { name: "lint", command: settings.linter },
+    { name: "tests", command: settings.testCommand },
+  ];
+  const results: CheckResult[] = [];
+  for (const { name, command } of checks) {
+    if (!command) continue;
+    const { stdout, stderr, code, killed } = await pi.exec("bash", ["-lc", command], { cwd: repoCwd, timeout: CHECK_TIMEOUT_MS });
+    const output = (stderr.trim() || stdout.trim()).split("\n").slice(-20).join("\n");
+    results.push({ name, ok: code === 0 && !killed, output: killed ? `Timed out: ${command}` : output });
+    if (code !== 0 || killed) break;
+  }
+  return results;
+}
+
+// ─── Summary ──────────────────────────────────────────────────────────────────
+
+export type FixStatus = "applied" | "failed" | "skipped";
+
+export interface FixOutcome {
+  finding: ConsolidatedFinding;
+  status: FixStatus;
+  note?: string;
+  checks: CheckResult[];
+}
+
+const FIX_STATUS_LABEL: Record<FixStatus, string> = {
+  applied: "✅ applied",
+  failed: "❌ failed",
+  skipped: "⏭ skipped",
+};
+
+export function formatFixSummary(record: ReviewRecord, outcomes: FixOutcome[], cancelled: boolean): string {
+  const count = (status: FixStatus) => outcomes.filter((o) => o.status === status).length;
+  let text = `## 🛠 Review fixes — ${record.label}\n\n`;
+  text += `${count("applied")} applied · ${count("failed")} failed · ${count("skipped")} skipped`;
+  text += cancelled ? " · stopped early\n\n" : "\n\n";
+  text += `| # | Finding | Result | Checks |\n|---|---------|--------|--------|\n`;
+  const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  outcomes.forEach((o, i) => {
+    const checks = o.checks.length === 0 ? "—" : o.checks.map((c) => `${c.name} ${c.ok ? "✅" : "❌"}`).join(" · ");
+    const note = o.note ? ` — ${cell(o.note)}` : "";
+    text += `| ${i + 1} | \`${o.finding.file}:${o.finding.line}\` ${cell(o.finding.title)} | ${FIX_STATUS_LABEL[o.status]}${note} | ${checks} |\n`;
+  });
+  const failedChecks = outcomes.flatMap((o) => o.checks.filter((c) => !c.ok).map((c) => ({ o, c })));
+  for (const { o, c } of failedChecks) {
+    text += `\n**${c.name} failed after \`${o.finding.file}:${o.finding.line}\`:**\n\`\`\`\n${c.output}\n\`\`\`\n`;
+  }
+  return text;
+}
@@ -0,0 +1,206 @@
+import type { FileCoverage, ReviewAgentResult } from "./types";
+
+// ─── Diff chunking ────────────────────────────────────────────────────────────
+//
+// Inline reviewers get the diff in the prompt, so big diffs are split on file
+// and hunk boundaries into chunks that fit a token budget instead of being cut
+// off. Every chunk is reviewed separately and the findings merged per model.
+// Whatever can't be reviewed (chunk cap reached, a single hunk larger than the
+// budget) is tracked so the report can say so.
+
+/** Rough token estimate — good enough for budgeting prompts. */
+export const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export interface DiffChunk {
+  /** 0-based position in the plan. */
+  index: number;
+  files: string[];
+  diff: string;
+  estimatedTokens: number;
+  /** Monorepo reviews: the workspace package this chunk belongs to, and its prompt context. */
+  packageName?: string;
+  context?: string;
+}
+
+export interface ChunkPlan {
+  chunks: DiffChunk[];
+  /** Files only partly included (oversized hunk truncated, or some hunks past the chunk cap). */
+  partialFiles: string[];
+  /** Files not included in any chunk (past the chunk cap). */
+  skippedFiles: string[];
+}
+
+interface FileDiff {
+  file: string;
+  header: string;
+  hunks: string[];
+}
+
+/**
+ * Per-file pieces of a unified diff, each named by its new path (`rename to`,
+ * `+++ b/`) — the name `git diff --name-only` and the coverage report use.
+ */
+export function splitDiffByFile(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: FileDiff | null = null;
+  let buffer: string[] = [];
+  let inHeader = false;
+
+  const flush = () => {
+    if (!current) return;
+    const text = buffer.join("\n");
+    if (current.hunks.length === 0 && !text.startsWith("@@")) current.header = text;
+    else current.hunks.push(text);
+    buffer = [];
+  };
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      flush();
+      current = { file: diffSectionPath(line) ?? line.slice(11), header: "", hunks: [] };
+      files.push(current);
+      inHeader = true;
+    } else if (line.startsWith("@@") && current) {
+      flush();
+      inHeader = false;
+    } else if (inHeader && current) {
+      const renamed = line.match(/^rename to (.+)$/) ?? line.match(/^\+\+\+ b\/(.+)$/);
+      if (renamed) current.file = renamed[1];
+    }
+    if (current) buffer.push(line);
+  }
+  flush();
+  return files;
+}
+
+/**
+ * New path of one `diff --git` section: the rename target or `+++ b/` path
+ * from its header, else the b/ side of the `diff --git` line.
+ */
+export function diffSectionPath(section: string): string | null {
+  const header = section.split(/^@@/m)[0];
+  const renamed = header.match(/^rename to (.+)$/m) ?? header.match(/^\+\+\+ b\/(.+)$/m);
+  if (renamed) return renamed[1];
+  const paths = header.match(/^diff --git (.+)$/m)?.[1];
+  if (!paths) return null;
+  // Without a rename both sides are the same path, which may itself contain " b/"
+  const same = paths.slice(2, 2 + (paths.length - 5) / 2);
+  if (paths === `a/${same} b/${same}`) return same;
+  return paths.match(/^a\/.+? b\/(.+)$/)?.[1] ?? null;
+}
+
+/** Cut `text` at the last line boundary that fits `maxChars`. */
+function truncateAtLine(text: string, maxChars: number): string {
+  const cut = text.slice(0, maxChars);
+  const lastNewline = cut.lastIndexOf("\n");
+  return lastNewline > 0 ? cut.slice(0, lastNewline) : cut;
+}
+
+/**
+ * Pack a diff into chunks of at most `tokenBudget` (estimated) tokens.
+ * Whole files are kept together when they fit; larger files are split between
+ * hunks, repeating the file header in each chunk. A single hunk larger than
+ * the budget is truncated (file marked partial). At most `maxChunks` chunks
+ * are kept; files beyond that are reported as skipped.
+ */
+export function chunkDiff(diff: string, tokenBudget: number, maxChunks = Infinity): ChunkPlan {
+  const maxChars = tokenBudget * CHARS_PER_TOKEN;
+  const pieces: Array<{ file: string; text: string }> = [];
+  const partial = new Set<string>();
+
+  const chunks: Array<{ files: Set<string>; parts: string[]; size: number }> = [];
+  let current: { files: Set<string>; parts: string[]; size: number } | null = null;
+  const add = (file: string, text: string) => {
+    if (!current || current.size + text.length + 1 > maxChars) {
+      current = { files: new Set(), parts: [], size: 0 };
+      chunks.push(current);
+    }
+    current.files.add(file);
+    current.parts.push(text);
+    current.size += text.length + 1;
+  };
+
+  for (const f of splitDiffByFile(diff)) {
+    const whole = [f.header, ...f.hunks].join("\n");
+    if (whole.length <= maxChars) {
+      pieces.push({ file: f.file, text: whole });
+      continue;
+    }
+    // Split between hunks, each piece carrying the file header
+    let group: string[] = [];
+    let groupSize = f.header.length;
+    const emit = () => {
+      if (group.length > 0) pieces.push({ file: f.file, text: [f.header, ...group].join("\n") });
+      group = [];
+      groupSize = f.header.length;
+    };
+    for (const hunk of f.hunks) {
+      if (f.header.length + hunk.length + 1 > maxChars) {
+        emit();
+        const room = Math.max(maxChars - f.header.length - 200, 0);
+        const cut = truncateAtLine(hunk, room);
+        pieces.push({ file: f.file, text: `${f.header}\n${cut}\n[... hunk truncated — ${hunk.length - cut.length} chars omitted ...]` });
+        partial.add(f.file);
+        continue;
+      }
+      if (groupSize + hunk.length + 1 > maxChars) emit();
+      group.push(hunk);
+      groupSize += hunk.length + 1;
+    }
+    emit();
+  }
+
+  for (const piece of pieces) add(piece.file, piece.text);
+  if (chunks.length === 0) return singleChunk(diff, []);
+
+  const kept = chunks.slice(0, maxChunks);
+  const keptFiles = new Set(kept.flatMap((c) => [...c.files]));
+  const droppedFiles = new Set(chunks.slice(maxChunks).flatMap((c) => [...c.files]));
+  for (const file of droppedFiles) if (keptFiles.has(file)) partial.add(file);
+
+  return {
+    chunks: kept.map((c, index) => {
+      const text = c.parts.join("\n");
+      return { index, files: [...c.files], diff: text, estimatedTokens: estimateTokens(text) };
+    }),
+    partialFiles: [...partial].filter((file) => keptFiles.has(file)),
+    skippedFiles: [...droppedFiles].filter((file) => !keptFiles.has(file)),
+  };
+}
+
+/** The whole diff as a single chunk (tools mode, or no budget configured). */
+export function singleChunk(diff: string, files: string[]): ChunkPlan {
+  return { chunks: [{ index: 0, files, diff, estimatedTokens: estimateTokens(diff) }], partialFiles: [], skippedFiles: [] };
+}
+
+// ─── Coverage ─────────────────────────────────────────────────────────────────
+
+/**
+ * Per changed file: how many successful agents reviewed it, and whether it
+ * was fully reviewed, only partly (truncated hunk, chunk cap, some agents
+ * failed on its chunk) or not at all.
+ */
+export function computeCoverage(
+  changedFiles: string[],
+  plan: ChunkPlan,
+  results: ReviewAgentResult[],
+  ignoredFiles: string[] = [],
+): FileCoverage[] {
+  const successful = results.filter((r) => r.output);
+  const skipped = new Set(plan.skippedFiles);
+  const partial = new Set(plan.partialFiles);
+
+  const reviewed = changedFiles.map((file): FileCoverage => {
+    if (skipped.has(file)) return { file, status: "skipped", agents: 0 };
+    const agents = successful.filter((r) => !r.reviewedFiles || r.reviewedFiles.includes(file)).length;
+    if (agents === 0) return { file, status: "skipped", agents };
+    const partlyFailed = successful.some((r) => r.partialFiles?.includes(file));
+    const status = partial.has(file) || partlyFailed || agents < successful.length ? "partial" : "reviewed";
+    return { file, status, agents };
+  });
+  return [...reviewed, ...ignoredFiles.map((file): FileCoverage => ({ file, status: "ignored", agents: 0 }))];
+}
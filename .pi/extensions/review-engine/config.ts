@@ -0,0 +1,125 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parse as parseYaml } from "yaml";
+
+// ─── project.yml (the parts the review commands read) ─────────────────────────
+
+/** A pattern reviewers must always flag. Plain strings are accepted in YAML too. */
+export interface BannedPattern {
+  pattern: string;
+  reason?: string;
+  severity?: "critical" | "warning" | "suggestion";
+}
+
+/** `review:` in project.yml, and `repos[].review` overrides. */
+export interface ReviewRulesConfig {
+  /** Extra focus areas appended to the reviewer prompt. */
+  focus?: string[];
+  banned_patterns?: Array<string | BannedPattern>;
+  /** category → severity, e.g. { security: critical } */
+  severity_overrides?: Record<string, "critical" | "warning" | "suggestion">;
+  /** Globs of files never sent to reviewers (generated files, lockfiles, snapshots). */
+  ignore_paths?: string[];
+  /** Memory file (relative to the workspace) added to the reviewer prompt. */
+  memory_file?: string;
+  /** Review and report per workspace package (default: on when repo_structure is monorepo). */
+  by_package?: boolean;
+}
+
+/** One entry of `review.models` — a reviewer in the roster. */
+export interface ReviewModelConfig {
+  provider: string;
+  model: string;
+  /** Trust weight used in consensus scoring (default 1). */
+  weight?: number;
+  /** e.g. "security specialist" — added to this reviewer's prompt. */
+  role?: string;
+  /** Per-model timeout in seconds (overrides the command default). */
+  timeout?: number;
+  /** Part of the /parallel-review-lite subset. */
+  lite?: boolean;
+  /** "provider/model" alternatives tried in order when this one isn't available. */
+  fallback?: string[];
+}
+
+/** `review.verify` — second-stage check of low-consensus findings. */
+export interface ReviewVerifyConfig {
+  /** Verify findings up to this consensus: single (default) or minority. */
+  max_consensus?: "single" | "minority" | "majority";
+  /** Cap on findings sent to the verifier per run (default 10). */
+  max_findings?: number;
+  /** "provider/model" of the verifier (default: the first roster model that succeeded). */
+  model?: string;
+  /** Verifier timeout in seconds (default 300). */
+  timeout?: number;
+}
+
+/** `review.budget` — spend cap per review run. */
+export interface ReviewBudgetConfig {
+  /** Estimated USD per run. */
+  max_cost?: number;
+  /** Input + output tokens per run. */
+  max_tokens?: number;
+  /** When the pre-run estimate is over: refuse to run (stop, default) or drop the priciest models. */
+  on_exceed?: "stop" | "drop-models";
+}
+
+/** `review.context` — background attached to inline reviewer prompts. */
+export interface ReviewContextConfig {
+  /** Token budget of one chunk's context pack (default 3000). */
+  max_tokens?: number;
+}
+
+/** The project-wide `review:` section; `models` has no per-repo override. */
+export interface ReviewConfig extends ReviewRulesConfig {
+  models?: ReviewModelConfig[];
+  /** Specialist personas instead of the generalist prompt: true = all, or a list of persona ids. */
+  personas?: boolean | string[];
+  /** Verify low-consensus findings with a read-only tools agent: true, or settings. */
+  verify?: boolean | ReviewVerifyConfig;
+  budget?: ReviewBudgetConfig;
+  /** Native JSON output for providers that have it (default true). */
+  json_mode?: boolean;
+  /** Memory sections, enclosing code and called signatures in inline prompts: true (default), false, or settings. */
+  context?: boolean | ReviewContextConfig;
+}
+
+export interface ReviewRepoConfig {
+  name: string;
+  path?: string;
+  type?: string;
+  stack?: string;
+  /** Branch reviews diff against, e.g. "develop" (default: master, else main). */
+  base_branch?: string;
+  review?: ReviewRulesConfig;
+}
+
+export interface ReviewProjectConfig {
+  repos?: ReviewRepoConfig[];
+  repo_structure?: string;
+  review?: ReviewConfig;
+  conventions?: {
+    linter?: string;
+    test_command?: string;
+  };
+  agent?: {
+    execution?: {
+      run_tests?: boolean;
+      run_linter?: boolean;
+    };
+    services?: {
+      comment_on_prs?: boolean;
+    };
+    protected_files?: string[];
+  };
+}
+
+export function loadProjectConfig(cwd: string): ReviewProjectConfig | null {
+  const configPath = path.join(cwd, "project.yml");
+  if (!fs.existsSync(configPath)) return null;
+  try {
+    return (parseYaml(fs.readFileSync(configPath, "utf-8")) as ReviewProjectConfig) || null;
+  } catch {
+    return null;
+  }
+}
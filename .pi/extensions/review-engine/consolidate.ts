@@ -0,0 +1,147 @@
+import { categoryReviewers } from "./personas";
+import type { ConsolidatedFinding, ReviewAgentResult, ReviewFinding, Severity } from "./types";
+
+// ─── Consolidation (similarity-based deduplication) ──────────────────────────
+
+export const SEVERITY_WEIGHT: Record<string, number> = { critical: 3, warning: 2, suggestion: 1 };
+
+/** Similarity threshold above which two findings are considered duplicates */
+export const SIMILARITY_THRESHOLD = 0.3;
+
+/** Stop words excluded from similarity comparison */
+const STOP_WORDS = new Set([
+  "the", "a", "an", "is", "are", "was", "were", "be", "been", "being",
+  "have", "has", "had", "do", "does", "did", "will", "would", "could",
+  "should", "may", "might", "can", "shall", "to", "of", "in", "for",
+  "on", "with", "at", "by", "from", "as", "into", "through", "during",
+  "before", "after", "above", "below", "between", "under", "again",
+  "further", "then", "once", "here", "there", "when", "where", "why",
+  "how", "all", "each", "every", "both", "few", "more", "most",
+  "other", "some", "such", "no", "nor", "not", "only", "own", "same",
+  "so", "than", "too", "very", "just", "because", "but", "and", "or",
+  "if", "while", "that", "this", "these", "those", "it", "its",
+  "also", "which", "about", "using", "used", "use", "like",
+]);
+
+/** Extract meaningful words from text for similarity comparison */
+export function extractSignificantWords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").split(/\s+/)
+      .filter((w) => w.length > 2 && !STOP_WORDS.has(w)),
+  );
+}
+
+/** Compute word-overlap similarity between two findings (0..1) */
+export function findingSimilarity(a: ReviewFinding, b: ReviewFinding): number {
+  // Must be the same file — non-negotiable
+  if (a.file !== b.file) return 0;
+  // Lines must be within ±15 of each other
+  if (Math.abs(a.line - b.line) > 15) return 0;
+  return textSimilarity(a, b);
+}
+
+/** Word overlap of title + description only — no file or line check (0..1). */
+export function textSimilarity(
+  a: Pick<ReviewFinding, "title" | "description">,
+  b: Pick<ReviewFinding, "title" | "description">,
+): number {
+  const aWords = extractSignificantWords(`${a.title} ${a.description}`);
+  const bWords = extractSignificantWords(`${b.title} ${b.description}`);
+  if (aWords.size === 0 || bWords.size === 0) return 0;
+
+  let overlap = 0;
+  for (const w of aWords) { if (bWords.has(w)) overlap++; }
+
+  // Use overlap / min(|A|, |B|) — biased toward the smaller set so that
+  // a short finding can still match a longer one about the same issue.
+  return overlap / Math.min(aWords.size, bWords.size);
+}
+
+/** Consensus score DESC, then severity DESC. */
+export function compareFindings(a: ConsolidatedFinding, b: ConsolidatedFinding): number {
+  return b.consensusScore !== a.consensusScore
+    ? b.consensusScore - a.consensusScore
+    : SEVERITY_WEIGHT[b.severity] - SEVERITY_WEIGHT[a.severity];
+}
+
+/** Consensus denominator of a finding: its category's reviewers in persona mode, else every agent. */
+export function findingReviewers(f: Pick<ConsolidatedFinding, "reviewers">, totalAgents: number): number {
+  return f.reviewers ?? totalAgents;
+}
+
+/** Trust weight of an agent — project.yml review.models `weight`, default 1. */
+export function agentWeight(result: Pick<ReviewAgentResult, "weight">): number {
+  return typeof result.weight === "number" && result.weight > 0 ? result.weight : 1;
+}
+
+/**
+ * Group similar findings across agents. A group's score is the sum over its
+ * agents of trust weight × the severity that agent gave, so agreement from
+ * trusted models counts more and a lone "critical" among "suggestion" votes
+ * doesn't inflate the score. `severity` stays the highest one reported, with
+ * the per-severity vote count in `severitySpread`. In persona mode findings
+ * only group within their category, and `reviewers` is the number of agents
+ * that held that category's persona.
+ */
+export function consolidateFindings(results: ReviewAgentResult[]): ConsolidatedFinding[] {
+  // 1. Flatten all findings with their agent source
+  const all: Array<{ finding: ReviewFinding; agent: string; weight: number }> = [];
+  for (const r of results) {
+    if (!r.output) continue;
+    for (const f of r.output.findings) all.push({ finding: f, agent: r.displayName, weight: agentWeight(r) });
+  }
+
+  const personaMode = results.some((r) => r.persona);
+
+  // 2. Greedy grouping: merge into the most similar existing group, or start a new one
+  const groups: ConsolidatedFinding[] = [];
+  // Per group: each agent's weight and the highest severity it gave
+  const votes = new Map<ConsolidatedFinding, Map<string, { weight: number; severity: Severity }>>();
+  for (const { finding, agent, weight } of all) {
+    let bestGroup: ConsolidatedFinding | null = null;
+    let bestScore = 0;
+    for (const g of groups) {
+      if (personaMode && g.category !== finding.category) continue;
+      const sim = findingSimilarity(finding, g);
+      if (sim > bestScore) { bestScore = sim; bestGroup = g; }
+    }
+
+    if (bestGroup && bestScore >= SIMILARITY_THRESHOLD) {
+      if (!bestGroup.agents.includes(agent)) bestGroup.agents.push(agent);
+      const groupVotes = votes.get(bestGroup)!;
+      const vote = groupVotes.get(agent);
+      if (!vote) groupVotes.set(agent, { weight, severity: finding.severity });
+      else if (SEVERITY_WEIGHT[finding.severity] > SEVERITY_WEIGHT[vote.severity]) vote.severity = finding.severity;
+      // Upgrade severity if higher
+      if (SEVERITY_WEIGHT[finding.severity] > SEVERITY_WEIGHT[bestGroup.severity]) bestGroup.severity = finding.severity;
+      // Keep the most detailed description
+      if (finding.description.length > bestGroup.description.length) {
+        bestGroup.description = finding.description;
+        bestGroup.title = finding.title;
+      }
+      if (finding.suggestion && (!bestGroup.suggestion || finding.suggestion.length > bestGroup.suggestion.length)) {
+        bestGroup.suggestion = finding.suggestion;
+      }
+    } else {
+      const group: ConsolidatedFinding = { ...finding, agents: [agent], consensusScore: 0 };
+      groups.push(group);
+      votes.set(group, new Map([[agent, { weight, severity: finding.severity }]]));
+    }
+  }
+
+  // 3. Weighted score and severity spread from the votes
+  for (const g of groups) {
+    const spread: Partial<Record<Severity, number>> = {};
+    let score = 0;
+    for (const { weight, severity } of votes.get(g)!.values()) {
+      spread[severity] = (spread[severity] ?? 0) + 1;
+      score += weight * SEVERITY_WEIGHT[severity];
+    }
+    g.consensusScore = Math.round(score * 100) / 100;
+    g.severitySpread = spread;
+    if (personaMode) g.reviewers = categoryReviewers(results, g.category) || undefined;
+  }
+
+  // 4. Sort by consensus score DESC, then severity DESC
+  return groups.sort(compareFindings);
+}
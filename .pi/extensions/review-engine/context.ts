@@ -0,0 +1,361 @@
+import { execFileSync } from "node:child_process";
+import * as path from "node:path";
+import { listMemoryFiles, type MemoryFile } from "../wyebot/memory";
+import { searchMemory } from "../wyebot/memory-index";
+import { CHARS_PER_TOKEN, estimateTokens, splitDiffByFile, type DiffChunk } from "./chunking";
+import { loadProjectConfig } from "./config";
+import { readTargetFile } from "./target";
+import type { ReviewTarget } from "./types";
+
+// ─── Reviewer context pack ────────────────────────────────────────────────────
+//
+// Inline reviewers see nothing but the diff. Each chunk's prompt gets a small
+// context pack in front of it, within `review.context.max_tokens`: the memory
+// topics search_memory ranks highest for what the chunk touches, the full
+// function or class around every hunk, and the signatures of the symbols the
+// added lines call. Tools-mode agents read all of this themselves and get no
+// pack.
+
+const DEFAULT_MAX_TOKENS = 3_000;
+/** Shares of the pack budget; the enclosing code gets whatever the other two leave. */
+const MEMORY_SHARE = 0.3;
+const SIGNATURE_SHARE = 0.2;
+const MAX_SECTION_CHARS = 1_500;
+const MAX_MEMORY_SECTIONS = 8;
+const MAX_BLOCK_LINES = 150;
+/** How far above a hunk to look for its enclosing definition, and below it for the end. */
+const MAX_SCAN_LINES = 400;
+const MAX_SIGNATURE_LOOKUPS = 15;
+const DEFINITIONS_PER_SYMBOL = 2;
+const MAX_SIGNATURE_CHARS = 200;
+const GREP_TIMEOUT_MS = 10_000;
+const MIN_TERM_LENGTH = 4;
+
+const CODE_EXTENSIONS = new Set([
+  ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", ".rb", ".go", ".rs", ".java", ".kt", ".kts", ".scala",
+  ".swift", ".c", ".h", ".cc", ".cpp", ".hpp", ".cs", ".php", ".dart", ".vue", ".svelte",
+]);
+
+/** Directory names too generic to find anything in memory. */
+const GENERIC_SEGMENTS = new Set([
+  "src", "lib", "libs", "app", "apps", "packages", "test", "tests", "spec", "specs", "index", "main", "utils", "util",
+  "components", "internal", "common", "core", "types", "shared", "helpers",
+]);
+
+const CONTROL_KEYWORDS = new Set([
+  "if", "for", "while", "switch", "catch", "with", "return", "function", "else", "do", "try", "elif", "until", "unless",
+  "foreach", "sizeof", "typeof", "new", "await", "yield", "super", "this", "constructor",
+]);
+
+/** Calls too common to be worth a lookup. */
+const BUILTIN_CALLS = new Set([
+  "require", "import", "parseInt", "parseFloat", "String", "Number", "Boolean", "Array", "Object", "Promise", "Error",
+  "Date", "Map", "Set", "JSON", "Math", "log", "warn", "error", "info", "debug", "push", "pop", "shift", "map", "filter",
+  "reduce", "forEach", "slice", "splice", "join", "split", "includes", "replace", "trim", "find", "some", "every",
+  "indexOf", "startsWith", "endsWith", "toString", "concat", "match", "get", "set", "has", "add", "delete", "keys",
+  "values", "entries", "then", "resolve", "reject", "print", "len", "range", "str", "int", "isinstance", "append",
+  "format", "expect", "describe", "test", "assert", "fmt", "Println", "Printf", "Sprintf", "Errorf", "make", "new",
+]);
+
+const DEFINITION_PATTERNS = [
+  // function foo / class Foo / def foo / fn foo / func (r *T) Foo / interface, enum, struct, trait, impl, module
+  /^\s*(?:export\s+)?(?:default\s+)?(?:(?:pub(?:\([^)]*\))?|public|private|protected|internal|static|async|abstract|final|override|open|unsafe|declare)\s+)*(?:function\*?|class|interface|enum|struct|trait|impl|module|def|fn|func(?:\s*\([^)]*\))?)\s+(?:self\.)?([A-Za-z_$][\w$]*[?!]?)/,
+  // const foo = (…) => / const foo = function
+  /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\(|[A-Za-z_$][\w$]*\s*=>)/,
+  // Methods: name(…) {  /  Type name(…) throws X {  /  name(…): Type {
+  /^\s*(?:[\w<>[\],.?]+\s+)*\*?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\([^;]*\)\s*(?::\s*[^;{]+|throws\s+[\w., ]+)?\s*\{\s*$/,
+];
+
+// ─── Settings ─────────────────────────────────────────────────────────────────
+
+/** Token budget of one chunk's pack from project.yml `review.context`; 0 = off. */
+export function resolveContextBudget(cwd: string): number {
+  const configured = loadProjectConfig(cwd)?.review?.context;
+  if (configured === false) return 0;
+  const maxTokens = Number(configured && typeof configured === "object" ? configured.max_tokens : undefined);
+  return maxTokens > 0 ? Math.floor(maxTokens) : DEFAULT_MAX_TOKENS;
+}
+
+// ─── Code structure ───────────────────────────────────────────────────────────
+
+function definitionName(line: string): string | null {
+  for (const pattern of DEFINITION_PATTERNS) {
+    const name = line.match(pattern)?.[1];
+    if (name) return CONTROL_KEYWORDS.has(name) ? null : name;
+  }
+  return null;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** 0-based last line of the definition starting at `start`; null when its body can't be found. */
+function blockEnd(lines: string[], start: number, ext: string): number | null {
+  const limit = Math.min(lines.length, start + MAX_SCAN_LINES);
+  const indent = indentOf(lines[start]);
+  if (ext === ".py") {
+    let end = start;
+    for (let i = start + 1; i < limit; i++) {
+      if (!lines[i].trim()) continue;
+      if (indentOf(lines[i]) <= indent) break;
+      end = i;
+    }
+    return end > start ? end : null;
+  }
+  if (ext === ".rb") {
+    for (let i = start + 1; i < limit; i++) {
+      if (indentOf(lines[i]) === indent && /^\s*end\b/.test(lines[i])) return i;
+    }
+    return null;
+  }
+  let depth = 0;
+  let opened = false;
+  for (let i = start; i < limit; i++) {
+    // Braces inside strings and line comments don't count
+    const code = lines[i].replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""').replace(/\/\/.*$/, "");
+    for (const ch of code) {
+      if (ch === "{") { depth++; opened = true; }
+      else if (ch === "}") depth--;
+    }
+    if (opened && depth <= 0) return i;
+    // A signature may wrap, but not for long
+    if (!opened && i - start >= 5) return null;
+  }
+  return null;
+}
+
+interface Hunk {
+  /** 1-based new-side range covered by the hunk. */
+  start: number;
+  end: number;
+  /** First added or removed line, on the new side. */
+  anchor: number;
+  added: string[];
+}
+
+function parseHunks(fileDiff: { hunks: string[] }): Hunk[] {
+  const hunks: Hunk[] = [];
+  for (const text of fileDiff.hunks) {
+    const header = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (!header) continue;
+    const start = Number(header[1]);
+    const count = header[2] === undefined ? 1 : Number(header[2]);
+    let line = start;
+    let anchor: number | undefined;
+    const added: string[] = [];
+    for (const row of text.split("\n").slice(1)) {
+      if (row.startsWith("+")) {
+        anchor ??= line;
+        added.push(row.slice(1));
+        line++;
+      } else if (row.startsWith("-")) {
+        anchor ??= line;
+      } else if (row.startsWith(" ")) {
+        line++;
+      }
+    }
+    hunks.push({ start, end: start + count - 1, anchor: anchor ?? start, added });
+  }
+  return hunks;
+}
+
+interface EnclosingBlock {
+  file: string;
+  name: string;
+  /** 1-based, inclusive. */
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** The innermost definition around `hunk` — null when there is none or the hunk already shows all of it. */
+function findEnclosingBlock(file: string, lines: string[], hunk: Hunk, ext: string): EnclosingBlock | null {
+  const anchor = Math.min(hunk.anchor, lines.length) - 1;
+  for (let i = anchor; i >= 0 && i >= anchor - MAX_SCAN_LINES; i--) {
+    const name = definitionName(lines[i]);
+    if (!name) continue;
+    const end = blockEnd(lines, i, ext);
+    if (end === null || end < anchor) continue;
+    if (i + 1 >= hunk.start && end + 1 <= hunk.end) return null;
+    const shown = lines.slice(i, Math.min(end + 1, i + MAX_BLOCK_LINES));
+    let text = shown.map((l, n) => `${String(i + n + 1).padStart(5)} | ${l}`).join("\n");
+    if (end + 1 - i > MAX_BLOCK_LINES) text += `\n      … (${end + 1 - i - MAX_BLOCK_LINES} more lines)`;
+    return { file, name, start: i + 1, end: end + 1, text };
+  }
+  return null;
+}
+
+/** Names called in `added` lines, most frequent first; definitions in those lines and builtins are left out. */
+function calledSymbols(added: string[]): string[] {
+  const defined = new Set(added.map(definitionName).filter((n): n is string => !!n));
+  const counts = new Map<string, number>();
+  for (const line of added) {
+    for (const m of line.matchAll(/([A-Za-z_$][\w$]*)\s*\(/g)) {
+      const name = m[1];
+      if (name.length < 3 || defined.has(name) || CONTROL_KEYWORDS.has(name) || BUILTIN_CALLS.has(name)) continue;
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+}
+
+interface Signature {
+  name: string;
+  file: string;
+  line: number;
+  text: string;
+}
+
+/** Definitions of `names` in the reviewed revision, found with one `git grep`. */
+function findSignatures(target: ReviewTarget, names: string[]): Signature[] {
+  if (names.length === 0) return [];
+  let output = "";
+  try {
+    output = execFileSync("git", [
+      "-C", target.repoCwd, "grep", "-n", "-I", "-w", "-E", "-e", names.map((n) => n.replace(/\$/g, "\\$")).join("|"),
+      ...(target.headSha ? [target.headSha] : []), "--",
+    ], { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"], timeout: GREP_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 });
+  } catch {
+    // No match (exit 1), a timeout or an oversized result: no signatures
+    return [];
+  }
+
+  const byName = new Map<string, Signature[]>();
+  const prefix = target.headSha ? `${target.headSha}:` : "";
+  for (const row of output.split("\n")) {
+    const match = row.slice(row.startsWith(prefix) ? prefix.length : 0).match(/^(.+?):(\d+):(.*)$/);
+    if (!match || !CODE_EXTENSIONS.has(path.extname(match[1]))) continue;
+    const name = definitionName(match[3]);
+    if (!name || !names.includes(name)) continue;
+    const found = byName.get(name) ?? [];
+    if (found.length >= DEFINITIONS_PER_SYMBOL) continue;
+    let text = match[3].trim().replace(/\s*\{\s*$/, "");
+    if (text.length > MAX_SIGNATURE_CHARS) text = `${text.slice(0, MAX_SIGNATURE_CHARS)}…`;
+    found.push({ name, file: match[1], line: Number(match[2]), text });
+    byName.set(name, found);
+  }
+  return names.flatMap((n) => byName.get(n) ?? []);
+}
+
+// ─── Memory ───────────────────────────────────────────────────────────────────
+
+/** Search terms for a chunk: file and directory names, plus the code names it touches. */
+function memoryTerms(files: string[], identifiers: string[]): string[] {
+  const terms = new Set<string>();
+  for (const file of files) {
+    const parsed = path.parse(file);
+    for (const part of [...parsed.dir.split("/"), parsed.name]) {
+      if (part.length >= MIN_TERM_LENGTH && !GENERIC_SEGMENTS.has(part.toLowerCase())) terms.add(part);
+    }
+  }
+  for (const name of identifiers) if (name.length >= MIN_TERM_LENGTH) terms.add(name);
+  return [...terms];
+}
+
+/**
+ * The repo's own memory file first, then DIRECTIVES and ARCHITECTURE. Other
+ * repos' files are left out, and so is `review.memory_file`, which the
+ * system prompt already carries whole.
+ */
+function memoryFilesFor(cwd: string, repo: string, memoryFile: string | null): MemoryFile[] {
+  const excluded = memoryFile ? path.normalize(memoryFile) : null;
+  const files = listMemoryFiles(cwd).filter((f) => path.join("memory", f.path) !== excluded);
+  const own = files.filter((f) => f.label === repo);
+  return [...own, ...files.filter((f) => !f.path.startsWith("repos"))];
+}
+
+// ─── Packs ────────────────────────────────────────────────────────────────────
+
+export interface ContextPack {
+  /** Prompt block; "" when nothing relevant was found. */
+  text: string;
+  memorySections: number;
+  enclosingBlocks: number;
+  signatures: number;
+  tokens: number;
+}
+
+/** Add `items` in order while they fit in `maxChars`; items that don't fit are skipped. */
+function fitItems(items: string[], maxChars: number): string[] {
+  const kept: string[] = [];
+  let used = 0;
+  for (const item of items) {
+    if (used + item.length > maxChars) continue;
+    kept.push(item);
+    used += item.length;
+  }
+  return kept;
+}
+
+function buildContextPack(cwd: string, target: ReviewTarget, chunk: DiffChunk, maxTokens: number, memoryFiles: MemoryFile[]): ContextPack {
+  const blocks: EnclosingBlock[] = [];
+  const added: string[] = [];
+  for (const fileDiff of splitDiffByFile(chunk.diff)) {
+    const hunks = parseHunks(fileDiff);
+    added.push(...hunks.flatMap((h) => h.added));
+    const ext = path.extname(fileDiff.file);
+    if (!CODE_EXTENSIONS.has(ext)) continue;
+    const content = readTargetFile(target, fileDiff.file);
+    if (content === null) continue;
+    const lines = content.split("\n");
+    for (const hunk of hunks) {
+      const block = findEnclosingBlock(fileDiff.file, lines, hunk, ext);
+      if (block && !blocks.some((b) => b.file === block.file && b.start === block.start)) blocks.push(block);
+    }
+  }
+  const called = calledSymbols(added).slice(0, MAX_SIGNATURE_LOOKUPS);
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+
+  const signatureItems = fitItems(
+    findSignatures(target, called).map((s) => `- \`${s.file}:${s.line}\` — \`${s.text}\`\n`),
+    maxChars * SIGNATURE_SHARE,
+  );
+  const terms = memoryTerms(chunk.files, [...blocks.map((b) => b.name), ...called.slice(0, 5)]);
+  const memoryItems = fitItems(
+    searchMemory(cwd, terms.join(" "), { files: memoryFiles, limit: MAX_MEMORY_SECTIONS }).hits.map(({ section }) => {
+      let body = section.content.split("\n").slice(1).join("\n").trim();
+      if (body.length > MAX_SECTION_CHARS) body = `${body.slice(0, MAX_SECTION_CHARS)}\n[... truncated ...]`;
+      return `#### ${section.file.label} › ${section.heading}\n\n${body}\n\n`;
+    }),
+    maxChars * MEMORY_SHARE,
+  );
+  const used = [...signatureItems, ...memoryItems].reduce((sum, item) => sum + item.length, 0);
+  const blockItems = fitItems(
+    blocks.map((b) => `\`${b.file}:${b.start}-${b.end}\` — \`${b.name}\`\n\`\`\`\n${b.text}\n\`\`\`\n\n`),
+    maxChars - used,
+  );
+
+  if (memoryItems.length + blockItems.length + signatureItems.length === 0) {
+    return { text: "", memorySections: 0, enclosingBlocks: 0, signatures: 0, tokens: 0 };
+  }
+  let text = "## Review context\n\nBackground for this diff, from the team's memory and the code around the changes. "
+    + "Use it to judge the change; only report findings on the diff itself.\n\n";
+  if (memoryItems.length > 0) text += `### Team memory\n\n${memoryItems.join("")}`;
+  if (blockItems.length > 0) text += `### Enclosing code\n\nThe full definition around each hunk, at the reviewed revision.\n\n${blockItems.join("")}`;
+  if (signatureItems.length > 0) text += `### Called symbols\n\n${signatureItems.join("")}\n`;
+  text = `${text.trimEnd()}\n\n---\n\n`;
+  return {
+    text,
+    memorySections: memoryItems.length,
+    enclosingBlocks: blockItems.length,
+    signatures: signatureItems.length,
+    tokens: estimateTokens(text),
+  };
+}
+
+/**
+ * One context pack per chunk of `chunks`, by chunk index, each within
+ * `maxTokens`. `memoryFile` is the review.memory_file already in the system
+ * prompt.
+ */
+export function buildContextPacks(
+  cwd: string,
+  target: ReviewTarget,
+  chunks: DiffChunk[],
+  maxTokens: number,
+  memoryFile: string | null,
+): ContextPack[] {
+  const memoryFiles = memoryFilesFor(cwd, target.repo, memoryFile);
+  return chunks.map((chunk) => buildContextPack(cwd, target, chunk, maxTokens, memoryFiles));
+}
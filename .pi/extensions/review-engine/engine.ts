@@ -0,0 +1,556 @@
+/**
+ * Review engine — the part of /review-me, /parallel-review and
+ * /parallel-review-lite that runs after a target and roster are known:
+ * spawn one reviewer agent per model, parse their JSON, consolidate
+ * findings by consensus and format the report.
+ *
+ * The differences between the commands live in a ReviewStrategy
+ * (see strategies.ts), not in copies of this code.
+ */
+
+import type { Message } from "@mariozechner/pi-ai";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { anySignal, cleanupTempFile, getFinalOutput, runRepairAgent, runReviewAgent, writeTempFile } from "./agent";
+import { chunkDiff, computeCoverage, singleChunk, type ChunkPlan, type DiffChunk } from "./chunking";
+import { loadProjectConfig } from "./config";
+import { consolidateFindings } from "./consolidate";
+import { buildContextPacks, resolveContextBudget, type ContextPack } from "./context";
+import { makeReviewId, saveReviewRecord } from "./history";
+import { labelAgainstPrevious } from "./incremental";
+import { supportsJsonMode } from "./json-mode";
+import { detectWorkspacePackages, groupFilesByPackage, planPackageChunks } from "./packages";
+import { parseReviewOutput, validateReviewOutput } from "./parse";
+import { formatPersonaRoster, getPersona } from "./personas";
+import { createReviewProgress, type AgentState, type ReviewProgress } from "./progress";
+import { getReviewerSystemPrompt } from "./prompts";
+import { formatReport } from "./report";
+import { applyIgnorePaths, applySeverityOverrides, formatRulesPrompt, resolveReviewRules } from "./rules";
+import { findTriageSuppressions, suppressTriagedFindings } from "./triage";
+import type {
+  BudgetOutcome, ConsolidatedFinding, ModelSelection, ReviewAgentOutput, ReviewAgentResult, ReviewRecord, ReviewStrategy,
+  ReviewTarget, SuppressedFinding, TokenUsage, VerificationSummary,
+} from "./types";
+import {
+  addUsage, applyBudget, describeBudget, emptyUsage, estimateModelCosts, formatCost, isOverBudget, messageUsage,
+  resolveBudget, usageFromMessages,
+} from "./usage";
+import { estimateVerifierCost, resolveVerifySettings, verifyFindings } from "./verify";
+
+const LOCK_RETRY_ATTEMPTS = 2;
+const LOCK_RETRY_DELAY_MS = 3000;
+const BUDGET_STOPPED = "Stopped: review budget reached";
+const AGENT_CANCELLED = "Cancelled by user";
+
+// ─── Concurrency-limited parallel map ─────────────────────────────────────────
+
+export async function mapWithConcurrencyLimit<TIn, TOut>(
+  items: TIn[],
+  concurrency: number,
+  fn: (item: TIn, index: number) => Promise<TOut>,
+  staggerMs = 0,
+): Promise<TOut[]> {
+  if (items.length === 0) return [];
+  const limit = Math.max(1, Math.min(concurrency, items.length));
+  const results: TOut[] = new Array(items.length);
+  let nextIndex = 0;
+  const workers = new Array(limit).fill(null).map(async () => {
+    while (true) {
+      const current = nextIndex++;
+      if (current >= items.length) return;
+      // Stagger: agent i waits i × staggerMs so pi processes don't fight over lock files
+      if (staggerMs > 0 && current > 0) {
+        await new Promise((r) => setTimeout(r, current * staggerMs));
+      }
+      results[current] = await fn(items[current], current);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// ─── Single agent with retries and timeout ────────────────────────────────────
+
+interface AgentRunContext {
+  ctx: ExtensionContext;
+  strategy: ReviewStrategy;
+  target: ReviewTarget;
+  plan: ChunkPlan;
+  /** Reviewer system prompt per persona id ("" = generalist). */
+  systemPromptPaths: Map<string, string>;
+  /** Tools mode: one diff file per chunk, by chunk index. */
+  diffFilePaths?: string[];
+  /** Inline mode: one context pack per chunk, by chunk index. */
+  contextPacks: ContextPack[];
+  /** Aborts on cancellation and, with review.budget, when the run's spend reaches it. */
+  signal: AbortSignal;
+  budgetSignal?: AbortSignal;
+  /** Live usage of every assistant message, for the budget. */
+  onUsage: (usage: TokenUsage) => void;
+  /** Whether the model's provider has native JSON output to switch on (see json-mode.ts). */
+  nativeJson: (model: ModelSelection) => boolean;
+  /** Per-agent widget rows and cancel signals. */
+  progress: ReviewProgress;
+  onDone: () => void;
+}
+
+/** Why an agent stopped early: the budget, its own cancel, or the whole run's. */
+function stopReason(run: AgentRunContext, index: number): string {
+  if (run.budgetSignal?.aborted) return BUDGET_STOPPED;
+  return run.progress.agentSignal(index).aborted ? AGENT_CANCELLED : "Cancelled";
+}
+
+interface ChunkOutcome {
+  output: ReviewAgentOutput | null;
+  error?: string;
+  exitCode: number;
+  kind: "ok" | "timeout" | "failed" | "unparsed";
+  usage: TokenUsage;
+  /** Schema repair turn taken for this chunk, and whether it produced valid JSON. */
+  repair?: "recovered" | "failed";
+}
+
+/** One pi process reviewing one chunk, with lock retries and the per-agent timeout. */
+async function reviewChunk(model: ModelSelection, index: number, chunk: DiffChunk, run: AgentRunContext): Promise<ChunkOutcome> {
+  const { ctx, strategy, target, plan, signal, progress } = run;
+  const usage = emptyUsage();
+  if (signal.aborted) return { output: null, error: stopReason(run, index), exitCode: 1, kind: "failed", usage };
+
+  // Per-agent timeout (project.yml review.models can override it per model)
+  // combined with the global cancellation signal
+  const timeoutMs = model.timeoutMs ?? strategy.agentTimeoutMs;
+  const timeoutController = new AbortController();
+  const timeoutId = timeoutMs ? setTimeout(() => timeoutController.abort(), timeoutMs) : undefined;
+  const agentSignal = anySignal([signal, timeoutController.signal]);
+  const startedAt = Date.now();
+
+  try {
+    const agentOptions = {
+      cwd: target.repoCwd, model, mode: strategy.mode, diff: chunk.diff, diffFilePath: run.diffFilePaths?.[chunk.index],
+      changedFiles: target.changedFiles, systemPromptPath: run.systemPromptPaths.get(model.persona ?? "")!,
+      chunk: { index: chunk.index, total: plan.chunks.length, files: chunk.files, packageName: chunk.packageName, context: chunk.context },
+      signal: agentSignal,
+      onMessage: (message: Message) => run.onUsage(messageUsage(message)),
+      jsonMode: run.nativeJson(model),
+      contextPack: run.contextPacks[chunk.index]?.text,
+    };
+    let attempt = 0;
+    let result = await runReviewAgent(agentOptions);
+    addUsage(usage, usageFromMessages(result.messages));
+    // Retry on lock file errors
+    while (result.exitCode !== 0 && result.stderr.includes("Lock file is already being held") && attempt < LOCK_RETRY_ATTEMPTS) {
+      attempt++;
+      if (progress.visible) progress.retrying(index);
+      else ctx.ui.setStatus(strategy.statusKey, `${strategy.statusLabel}: retrying ${model.displayName}...`);
+      await new Promise((r) => setTimeout(r, LOCK_RETRY_DELAY_MS * attempt));
+      progress.start(index);
+      result = await runReviewAgent(agentOptions);
+      addUsage(usage, usageFromMessages(result.messages));
+    }
+
+    if (timeoutController.signal.aborted) {
+      const seconds = ((Date.now() - startedAt) / 1000).toFixed(0);
+      return { output: null, error: `Timed out after ${seconds}s`, exitCode: 1, kind: "timeout", usage };
+    }
+    const text = getFinalOutput(result.messages);
+    const checked = validateReviewOutput(text);
+    let parsed = "output" in checked ? checked.output : null;
+    // An agent stopped by the budget right after its answer still counts
+    if (result.exitCode !== 0 && !(parsed && run.budgetSignal?.aborted)) {
+      const error = signal.aborted ? stopReason(run, index) : result.stderr.slice(0, 200) || `Exit code ${result.exitCode}`;
+      return { output: null, error, exitCode: result.exitCode, kind: "failed", usage };
+    }
+
+    // Off-schema answer: one repair turn with the validation errors, then whatever the lenient parser salvages
+    let repair: ChunkOutcome["repair"];
+    if ("errors" in checked && !agentSignal.aborted) {
+      progress.repairing(index);
+      const repairRun = await runRepairAgent(agentOptions, text, checked.errors);
+      addUsage(usage, usageFromMessages(repairRun.messages));
+      progress.start(index);
+      const repaired = repairRun.exitCode === 0 ? validateReviewOutput(getFinalOutput(repairRun.messages)) : null;
+      repair = repaired && "output" in repaired ? "recovered" : "failed";
+      parsed = repaired && "output" in repaired ? repaired.output : parseReviewOutput(text);
+    }
+    if (!parsed && timeoutController.signal.aborted) {
+      const seconds = ((Date.now() - startedAt) / 1000).toFixed(0);
+      return { output: null, error: `Timed out after ${seconds}s`, exitCode: 1, kind: "timeout", usage, repair };
+    }
+    if (!parsed && signal.aborted) return { output: null, error: stopReason(run, index), exitCode: 1, kind: "failed", usage, repair };
+    // A persona files everything under its own category, whatever the model wrote
+    const persona = getPersona(model.persona);
+    if (parsed && persona) for (const f of parsed.findings) f.category = persona.category;
+    if (parsed) progress.chunkDone(index, parsed.findings.length);
+    return parsed
+      ? { output: parsed, exitCode: 0, kind: "ok", usage, repair }
+      : { output: null, error: "Failed to parse JSON output, even after a repair turn", exitCode: 0, kind: "unparsed", usage, repair };
+  } catch (err: any) {
+    return { output: null, error: err?.message || "Unknown error", exitCode: 1, kind: "failed", usage };
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+}
+
+/** Review every chunk with one model (the roster's `index`-th) and merge the chunk outputs into one agent result. */
+async function reviewWithModel(model: ModelSelection, index: number, runContext: AgentRunContext): Promise<ReviewAgentResult> {
+  const { ctx, strategy, plan, progress } = runContext;
+  // Cancelling this agent alone aborts its chunks, not the run
+  const run = { ...runContext, signal: anySignal([runContext.signal, progress.agentSignal(index)]) };
+  const { signal } = run;
+  // The widget already shows every agent's state
+  const notify = strategy.notifyPerAgent && !progress.visible;
+  if (signal.aborted) {
+    progress.finish(index, "cancelled");
+    return {
+      model: model.modelId, displayName: model.displayName, weight: model.weight, persona: model.persona,
+      output: null, error: stopReason(run, index), exitCode: 1,
+    };
+  }
+
+  const startedAt = Date.now();
+  progress.start(index);
+  if (notify) ctx.ui.notify(`🔍 ${model.displayName} — reviewing...`, "info");
+
+  const outcomes = await mapWithConcurrencyLimit(
+    plan.chunks,
+    strategy.chunkConcurrency ?? 1,
+    (chunk) => reviewChunk(model, index, chunk, run),
+  );
+
+  const durationMs = Date.now() - startedAt;
+  const durationSec = (durationMs / 1000).toFixed(0);
+  const usage = outcomes.reduce((total, o) => addUsage(total, o.usage), emptyUsage());
+  const repairTurns = outcomes.filter((o) => o.repair);
+  const repairs = repairTurns.length > 0
+    ? { attempted: repairTurns.length, recovered: repairTurns.filter((o) => o.repair === "recovered").length }
+    : undefined;
+  run.onDone();
+
+  const succeeded = plan.chunks.filter((_, i) => outcomes[i].output);
+  const failedCount = plan.chunks.length - succeeded.length;
+  const chunks = plan.chunks.length > 1 ? { total: plan.chunks.length, failed: failedCount } : undefined;
+
+  if (succeeded.length === 0) {
+    const first = outcomes[0];
+    const state: AgentState = first.kind === "timeout" ? "timed-out"
+      : first.kind === "unparsed" ? "parse-failed"
+        : first.error === AGENT_CANCELLED ? "cancelled" : "failed";
+    progress.finish(index, state, state === "failed" ? first.error : undefined);
+    if (notify) {
+      ctx.ui.notify(
+        first.kind === "timeout" ? `⏱ ${model.displayName} — timed out after ${durationSec}s`
+          : first.kind === "unparsed" ? `⚠️ ${model.displayName} — ${durationSec}s · could not parse output`
+            : `❌ ${model.displayName} — failed (${durationSec}s)`,
+        first.kind === "unparsed" ? "info" : "warning",
+      );
+    }
+    return {
+      model: model.modelId, displayName: model.displayName, weight: model.weight, persona: model.persona, output: null,
+      error: first.error, exitCode: first.exitCode, durationMs, chunks, usage, repairs,
+    };
+  }
+
+  // A file split across chunks is only partly reviewed when one of its chunks failed
+  const reviewedFiles = [...new Set(succeeded.flatMap((c) => c.files))];
+  const failedFiles = new Set(plan.chunks.filter((_, i) => !outcomes[i].output).flatMap((c) => c.files));
+  const partialFiles = reviewedFiles.filter((f) => failedFiles.has(f));
+
+  const outputs = outcomes.filter((o) => o.output).map((o) => o.output!);
+  const output: ReviewAgentOutput = {
+    findings: outputs.flatMap((o) => o.findings),
+    summary: outputs.map((o) => o.summary).filter(Boolean).join(" "),
+    score: Math.round(outputs.reduce((sum, o) => sum + o.score, 0) / outputs.length),
+  };
+
+  progress.finish(index, "parsed", failedCount > 0 ? `${failedCount}/${plan.chunks.length} chunk(s) failed` : undefined);
+  if (notify) {
+    const partial = failedCount > 0 ? ` · ${failedCount}/${plan.chunks.length} chunk(s) failed` : "";
+    ctx.ui.notify(`✅ ${model.displayName} — ${durationSec}s · score ${output.score}/10 · ${output.findings.length} issue(s)${partial}`, "info");
+  }
+  return {
+    model: model.modelId,
+    displayName: model.displayName,
+    weight: model.weight,
+    persona: model.persona,
+    output,
+    exitCode: 0,
+    durationMs,
+    reviewedFiles,
+    partialFiles: partialFiles.length > 0 ? partialFiles : undefined,
+    chunks,
+    usage,
+    repairs,
+  };
+}
+
+// ─── Full review run ──────────────────────────────────────────────────────────
+
+export interface ReviewRunOptions {
+  /** Run the verification pass even without `review.verify` in project.yml (--verify). */
+  verify?: boolean;
+  /** Command that cancels the run (or one agent of it), named in the progress widget. */
+  stopCommand?: string;
+}
+
+export interface ReviewRunResult {
+  results: ReviewAgentResult[];
+  findings: ConsolidatedFinding[];
+  report: string;
+  cancelled: boolean;
+  /** Persisted history entry; null when cancelled or the save failed. */
+  record: ReviewRecord | null;
+  /** review.budget refused the run before any agent started. */
+  budgetStopped?: boolean;
+}
+
+/**
+ * Run every model in `models` against `target` as described by `strategy`.
+ * Progress goes to the footer status (and per-agent notifications when the
+ * strategy asks for them); the caller decides what to do with the report.
+ * Finished runs are saved to the review history (see history.ts). When
+ * `previous` is given, `target` is an incremental diff since that run and
+ * findings are labelled new / still present / resolved against it.
+ * Project review rules (project.yml `review:`) shape the prompt, drop
+ * ignored paths and pin severities per category. Findings dismissed or
+ * marked false positive by /review-triage on this branch are left out.
+ * With `review.by_package` (on for monorepos), every changed workspace
+ * package is reviewed as its own chunk(s) and the report is grouped by it.
+ * Models carrying a persona (see personas.ts) get that persona's prompt, and
+ * consensus is counted among the agents of the same persona. With
+ * `review.verify` (or `options.verify`), low-consensus findings go through a
+ * verifier agent (see verify.ts) and refuted ones leave the main report.
+ * Token usage and cost are summed per agent (see usage.ts); `review.budget`
+ * drops models or refuses the run when the estimate is over it, and stops
+ * the agents still running once the actual spend reaches it. Answers that
+ * fail the output schema (see parse.ts) get one repair turn; providers with
+ * native JSON output use it in inline mode (see json-mode.ts). Inline
+ * reviewers get a context pack with each chunk — relevant memory sections,
+ * the code around every hunk and called signatures (see context.ts).
+ */
+export async function runReview(
+  ctx: ExtensionContext,
+  requestedTarget: ReviewTarget,
+  roster: ModelSelection[],
+  strategy: ReviewStrategy,
+  signal: AbortSignal,
+  previous: ReviewRecord | null = null,
+  options: ReviewRunOptions = {},
+): Promise<ReviewRunResult> {
+  let models = roster;
+  const startedAt = new Date();
+  const rules = resolveReviewRules(ctx.cwd, requestedTarget.repo);
+  const { target, ignored } = applyIgnorePaths(requestedTarget, rules.ignorePaths);
+  if (ignored.length > 0) ctx.ui.notify(`Ignoring ${ignored.length} file(s) matching review.ignore_paths`, "info");
+  if (target.changedFiles.length === 0) {
+    const report = `All ${ignored.length} changed file(s) match \`review.ignore_paths\` — nothing to review.\n`;
+    return { results: [], findings: [], report, cancelled: false, record: null };
+  }
+
+  // One system prompt per persona in the roster ("" = the generalist prompt)
+  const rulesPrompt = formatRulesPrompt(ctx.cwd, rules);
+  const systemPrompts = new Map([...new Set(models.map((m) => m.persona ?? ""))].map((id) => (
+    [id, getReviewerSystemPrompt(strategy.mode, getPersona(id)) + rulesPrompt] as const
+  )));
+  const packages = rules.byPackage ? detectWorkspacePackages(target.repoCwd) : [];
+  const slices = packages.length > 0 ? groupFilesByPackage(target.changedFiles, packages) : [];
+  const plan = slices.length > 0
+    ? planPackageChunks(ctx.cwd, target.repo, target.repoCwd, target.diff, slices, packages, strategy)
+    : strategy.mode === "inline" && strategy.chunkTokenBudget
+      ? chunkDiff(target.diff, strategy.chunkTokenBudget, strategy.maxChunks)
+      : singleChunk(target.diff, target.changedFiles);
+  // review.context: inline reviewers get memory and surrounding code with their chunk
+  const contextBudget = strategy.mode === "inline" ? resolveContextBudget(ctx.cwd) : 0;
+  const contextPacks = contextBudget > 0 ? buildContextPacks(ctx.cwd, target, plan.chunks, contextBudget, rules.memoryFile) : [];
+  // review.budget: estimate the run before spawning anything, then fit the roster into it
+  const budget = resolveBudget(ctx.cwd);
+  const verifySettings = resolveVerifySettings(ctx.cwd, options.verify);
+  let budgetOutcome: BudgetOutcome | undefined;
+  if (budget) {
+    const systemChars = Math.max(...[...systemPrompts.values()].map((p) => p.length));
+    const promptChars = plan.chunks.map((c) => systemChars + c.diff.length + (contextPacks[c.index]?.text.length ?? 0));
+    const estimates = estimateModelCosts(ctx, models, promptChars, strategy.mode);
+    // The verifier runs after the review whatever the roster, so its share is reserved up front
+    const verifierEstimate = verifySettings.enabled ? estimateVerifierCost(ctx, models, verifySettings) : null;
+    const reserved = verifierEstimate ? [verifierEstimate] : [];
+    const fit = applyBudget(budget, estimates, reserved);
+    if (fit.stop) {
+      const cost = [...estimates, ...reserved].reduce((sum, e) => sum + e.cost, 0);
+      const tokens = [...estimates, ...reserved].reduce((sum, e) => sum + e.tokens, 0);
+      const report = `💰 Review not run: estimated ${formatCost(cost)} / ${tokens.toLocaleString("en-US")} tokens `
+        + `for ${models.length} agent(s)${verifierEstimate ? " and verification" : ""} is over the \`review.budget\` of ${describeBudget(budget)}`
+        + (budget.onExceed === "stop" ? " (`on_exceed: stop`).\n" : ", even with a single model.\n");
+      return { results: [], findings: [], report, cancelled: false, record: null, budgetStopped: true };
+    }
+    if (fit.dropped.length > 0) {
+      ctx.ui.notify(`💰 Over review.budget — dropped ${fit.dropped.map((d) => `${d.model.displayName} (~${formatCost(d.cost)})`).join(", ")}`, "warning");
+    }
+    models = fit.models;
+    budgetOutcome = {
+      maxCost: budget.maxCost,
+      maxTokens: budget.maxTokens,
+      onExceed: budget.onExceed,
+      dropped: fit.dropped.map((d) => ({ name: d.model.displayName, estimatedCost: d.cost, estimatedTokens: d.tokens })),
+      exhausted: false,
+    };
+  }
+  const total = models.length;
+
+  const promptTemps = new Map([...systemPrompts].map(([id, prompt]) => {
+    const file = id ? `reviewer-prompt-${id}.md` : "reviewer-prompt.md";
+    return [id, writeTempFile(`pi-${strategy.name}-`, file, prompt)] as const;
+  }));
+  const diffTemps = strategy.mode === "tools"
+    ? plan.chunks.map((c) => writeTempFile(`pi-${strategy.name}-`, plan.chunks.length > 1 ? `review-diff-${c.index + 1}.patch` : "review-diff.patch", c.diff))
+    : [];
+  if (slices.length > 0) {
+    ctx.ui.notify(`📦 Monorepo: ${slices.length} package(s) changed — ${plan.chunks.length} chunk(s) per agent`
+      + (plan.skippedFiles.length > 0 ? ` — ${plan.skippedFiles.length} file(s) over the chunk cap or without a diff will be skipped` : ""), "info");
+  } else if (plan.chunks.length > 1) {
+    ctx.ui.notify(`📦 Large diff split into ${plan.chunks.length} chunks per agent`
+      + (plan.skippedFiles.length > 0 ? ` — ${plan.skippedFiles.length} file(s) over the chunk cap will be skipped` : ""), "info");
+  }
+
+  const packed = contextPacks.filter((p) => p.text);
+  if (packed.length > 0) {
+    const sum = (key: "memorySections" | "enclosingBlocks" | "signatures" | "tokens") => packed.reduce((n, p) => n + p[key], 0);
+    ctx.ui.notify(`📎 Context pack: ${sum("memorySections")} memory section(s), ${sum("enclosingBlocks")} enclosing block(s), `
+      + `${sum("signatures")} signature(s) — ~${Math.round(sum("tokens") / packed.length).toLocaleString("en-US")} tokens per chunk`, "info");
+  }
+  if (models.some((m) => m.persona)) ctx.ui.notify(`🎭 Personas: ${formatPersonaRoster(models)}`, "info");
+
+  // Live spend: once it reaches the budget, agents still working are stopped
+  const budgetController = new AbortController();
+  const spent = emptyUsage();
+  const onUsage = (usage: TokenUsage) => {
+    addUsage(spent, usage);
+    if (!budget || !budgetOutcome || budgetOutcome.exhausted) return;
+    if (isOverBudget(budget, { cost: spent.cost.total, tokens: spent.totalTokens })) {
+      budgetOutcome.exhausted = true;
+      ctx.ui.notify(`💰 review.budget reached (${formatCost(spent.cost.total)}) — stopping the agents still running`, "warning");
+      budgetController.abort();
+    }
+  };
+  const runSignal = budget ? anySignal([signal, budgetController.signal]) : signal;
+
+  let completedCount = 0;
+  ctx.ui.setStatus(strategy.statusKey, `${strategy.statusLabel}: 0/${total} done`);
+  const progress = createReviewProgress(ctx, strategy, models, plan.chunks.length, options.stopCommand);
+  // review.json_mode: false keeps every provider on prompt-only JSON
+  const jsonModeEnabled = loadProjectConfig(ctx.cwd)?.review?.json_mode !== false;
+  const available = ctx.modelRegistry.getAvailable();
+  const nativeJson = (model: ModelSelection) => jsonModeEnabled
+    && supportsJsonMode(available.find((m) => m.provider === model.provider && m.id === model.modelId)?.api, model.provider);
+
+  try {
+    const results = await mapWithConcurrencyLimit(
+      models,
+      strategy.concurrency ?? total,
+      (model, index) => reviewWithModel(model, index, {
+        ctx, strategy, target, plan,
+        signal: runSignal,
+        budgetSignal: budget ? budgetController.signal : undefined,
+        onUsage,
+        nativeJson,
+        progress,
+        systemPromptPaths: new Map([...promptTemps].map(([id, t]) => [id, t.filePath])),
+        diffFilePaths: diffTemps.map((t) => t.filePath),
+        contextPacks,
+        onDone: () => {
+          completedCount++;
+          ctx.ui.setStatus(strategy.statusKey, `${strategy.statusLabel}: ${completedCount}/${total} done`);
+        },
+      }),
+      strategy.staggerMs,
+    );
+
+    if (signal.aborted) return { results, findings: [], report: "", cancelled: true, record: null };
+
+    applySeverityOverrides(results, rules.severityOverrides);
+    let findings = consolidateFindings(results);
+    let resolvedFindings: ConsolidatedFinding[] | undefined;
+    if (previous) ({ findings, resolved: resolvedFindings } = labelAgainstPrevious(findings, previous, target.diff));
+    let suppressedFindings: SuppressedFinding[];
+    ({ findings, suppressed: suppressedFindings } = suppressTriagedFindings(findings, findTriageSuppressions(ctx.cwd, target)));
+
+    let verification: VerificationSummary | undefined;
+    let refutedFindings: ConsolidatedFinding[] | undefined;
+    if (verifySettings.enabled && budgetOutcome?.exhausted) {
+      ctx.ui.notify("Skipping verification: review.budget already reached.", "warning");
+    } else if (verifySettings.enabled) {
+      ctx.ui.setStatus(strategy.statusKey, `${strategy.statusLabel}: verifying low-consensus findings...`);
+      const verified = await verifyFindings(ctx, target, findings, models, results, verifySettings, signal, {
+        onUsage,
+        budgetSignal: budget ? budgetController.signal : undefined,
+      });
+      if (signal.aborted) return { results, findings: [], report: "", cancelled: true, record: null };
+      if (verified) {
+        ({ findings, summary: verification } = verified);
+        refutedFindings = verified.refuted.length > 0 ? verified.refuted : undefined;
+        if (verification.error) ctx.ui.notify(`Verification failed: ${verification.error}`, "warning");
+      }
+    }
+    const coverage = computeCoverage(target.changedFiles, plan, results, ignored);
+
+    const report = formatReport(results, findings, {
+      label: target.label,
+      branch: target.branch,
+      baseBranch: target.baseBranch,
+      filesChanged: target.changedFiles.length,
+      commitCount: target.commitCount,
+      totalAgents: total,
+      resolvedFindings,
+      suppressedFindings,
+      verification,
+      refutedFindings,
+      budget: budgetOutcome,
+      coverage,
+      chunkCount: plan.chunks.length,
+      packages: slices.length > 0 ? slices : undefined,
+    }, strategy.reportStyle);
+
+    const finishedAt = new Date();
+    const record: ReviewRecord = {
+      version: 1,
+      id: makeReviewId(startedAt, strategy.name, target.repo, target.branch),
+      command: strategy.name,
+      reportStyle: strategy.reportStyle,
+      label: target.label,
+      repo: target.repo,
+      repoSlug: target.repoSlug,
+      branch: target.branch,
+      baseBranch: target.baseBranch,
+      baseSha: target.baseSha ?? null,
+      headSha: target.headSha ?? null,
+      prNumber: target.prNumber,
+      changedFiles: target.changedFiles,
+      commitCount: target.commitCount,
+      models,
+      results,
+      findings,
+      previousReviewId: previous?.id,
+      resolvedFindings,
+      suppressedFindings: suppressedFindings.length > 0 ? suppressedFindings : undefined,
+      verification,
+      refutedFindings,
+      budget: budgetOutcome,
+      coverage,
+      chunkCount: plan.chunks.length,
+      packages: slices.length > 0 ? slices : undefined,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    };
+    try {
+      saveReviewRecord(ctx.cwd, record);
+    } catch (err: any) {
+      ctx.ui.notify(`Could not save review history: ${err?.message || "unknown error"}`, "warning");
+      return { results, findings, report, cancelled: false, record: null };
+    }
+
+    return { results, findings, report, cancelled: false, record };
+  } finally {
+    progress.dispose();
+    ctx.ui.setStatus(strategy.statusKey, undefined);
+    for (const t of promptTemps.values()) cleanupTempFile(t.dir, t.filePath);
+    for (const t of diffTemps) cleanupTempFile(t.dir, t.filePath);
+  }
+}
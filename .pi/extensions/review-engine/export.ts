@@ -0,0 +1,297 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { agentWeight, findingReviewers } from "./consolidate";
+import { renderReviewRecord } from "./history";
+import { packageForFile } from "./packages";
+import type { BudgetOutcome, ConsolidatedFinding, ReviewRecord, Severity, TokenUsage } from "./types";
+import { runUsage } from "./usage";
+
+// ─── Machine-readable export ──────────────────────────────────────────────────
+//
+// A stored review as SARIF 2.1.0 (for code-scanning viewers) or as a stable
+// JSON document (for dashboards and diff tools). Both carry the same rule ids,
+// fingerprints and consensus data, so results can be matched across runs.
+// The JSON layout is versioned by `schema`: fields may be added, never renamed
+// or removed without bumping it.
+
+export const REVIEW_JSON_SCHEMA = "wyebot.review/v1";
+
+export type ExportFormat = "markdown" | "json" | "sarif";
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  sarif: "sarif",
+};
+
+/** Rule id from a finding category: "Best Practice" → "review/best-practice". */
+export function ruleIdFor(category: string): string {
+  const slug = String(category).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return `review/${slug || "general"}`;
+}
+
+/** Stable per-issue id: file + category + title, independent of line and wording of the description. */
+export function findingFingerprint(f: Pick<ConsolidatedFinding, "file" | "category" | "title">): string {
+  const key = `${f.file}\n${String(f.category).toLowerCase()}\n${f.title.toLowerCase().replace(/\s+/g, " ").trim()}`;
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+export type ConsensusLevel = "unanimous" | "majority" | "minority" | "single";
+
+export function consensusLevel(agents: number, totalAgents: number): ConsensusLevel {
+  if (totalAgents > 1 && agents >= totalAgents) return "unanimous";
+  if (agents <= 1) return "single";
+  return agents * 2 > totalAgents ? "majority" : "minority";
+}
+
+// ─── Stable JSON ──────────────────────────────────────────────────────────────
+
+export interface ReviewJsonAgent {
+  name: string;
+  model: string;
+  weight: number;
+  /** Persona mode: specialist persona id the agent reviewed as. */
+  persona: string | null;
+  status: "ok" | "failed";
+  score: number | null;
+  findingCount: number;
+  durationMs: number | null;
+  /** Tokens and cost as reported by pi; null when the agent reported none. */
+  usage: TokenUsage | null;
+  /** Schema repair turns taken and how many produced valid JSON. */
+  repairs: { attempted: number; recovered: number } | null;
+  error: string | null;
+}
+
+export interface ReviewJsonFinding {
+  fingerprint: string;
+  ruleId: string;
+  file: string;
+  line: number;
+  /** Monorepo reviews: workspace package of `file`. */
+  package: string | null;
+  severity: Severity;
+  category: string;
+  title: string;
+  description: string;
+  suggestion: string | null;
+  consensus: {
+    level: ConsensusLevel;
+    agents: number;
+    /** Agents in the run — or, in persona mode, those that reviewed this category. */
+    totalAgents: number;
+    score: number;
+    severitySpread: Partial<Record<Severity, number>>;
+  };
+  agents: string[];
+  /** Incremental re-reviews: new / still present. */
+  status: string | null;
+  /** Verification pass verdict on low-consensus findings. */
+  verification: { verdict: string; justification: string; verifier: string } | null;
+  triage: { decision: string; reason: string | null } | null;
+}
+
+export interface ReviewJson {
+  schema: typeof REVIEW_JSON_SCHEMA;
+  review: {
+    id: string;
+    command: string;
+    label: string;
+    repo: string;
+    repoSlug: string;
+    branch: string;
+    baseBranch: string;
+    baseSha: string | null;
+    headSha: string | null;
+    prNumber: number | null;
+    changedFiles: number;
+    commitCount: number;
+    /** Monorepo reviews: changed workspace packages. */
+    packages: Array<{ name: string; dir: string; changedFiles: number }> | null;
+    /** Verification pass: verifier, findings checked, and the refuted ones (not in `findings`). */
+    verification: {
+      verifier: string;
+      checked: number;
+      error: string | null;
+      refuted: Array<{ file: string; line: number; title: string; justification: string }>;
+    } | null;
+    /** Every agent plus the verifier. */
+    usage: TokenUsage;
+    /** project.yml review.budget, when set. */
+    budget: BudgetOutcome | null;
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+  };
+  summary: { total: number; critical: number; warning: number; suggestion: number };
+  agents: ReviewJsonAgent[];
+  findings: ReviewJsonFinding[];
+}
+
+export function toReviewJson(record: ReviewRecord): ReviewJson {
+  const totalAgents = record.models.length;
+  const count = (severity: Severity) => record.findings.filter((f) => f.severity === severity).length;
+  return {
+    schema: REVIEW_JSON_SCHEMA,
+    review: {
+      id: record.id,
+      command: record.command,
+      label: record.label,
+      repo: record.repo,
+      repoSlug: record.repoSlug,
+      branch: record.branch,
+      baseBranch: record.baseBranch,
+      baseSha: record.baseSha,
+      headSha: record.headSha,
+      prNumber: record.prNumber ?? null,
+      changedFiles: record.changedFiles.length,
+      commitCount: record.commitCount,
+      packages: record.packages?.map((p) => ({ name: p.name, dir: p.dir, changedFiles: p.files.length })) ?? null,
+      verification: record.verification
+        ? {
+          verifier: record.verification.verifier,
+          checked: record.verification.checked,
+          error: record.verification.error ?? null,
+          refuted: (record.refutedFindings ?? []).map((f) => ({
+            file: f.file, line: f.line, title: f.title, justification: f.verification?.justification ?? "",
+          })),
+        }
+        : null,
+      usage: runUsage(record.results, record.verification),
+      budget: record.budget ?? null,
+      startedAt: record.startedAt,
+      finishedAt: record.finishedAt,
+      durationMs: record.durationMs,
+    },
+    summary: { total: record.findings.length, critical: count("critical"), warning: count("warning"), suggestion: count("suggestion") },
+    agents: record.results.map((r) => ({
+      name: r.displayName,
+      model: r.model,
+      weight: agentWeight(r),
+      persona: r.persona ?? null,
+      status: r.output ? "ok" : "failed",
+      score: r.output?.score ?? null,
+      findingCount: r.output?.findings.length ?? 0,
+      durationMs: r.durationMs ?? null,
+      usage: r.usage ?? null,
+      repairs: r.repairs ?? null,
+      error: r.output ? null : r.error || "unknown error",
+    })),
+    findings: record.findings.map((f, i) => {
+      const triage = record.triage?.find((t) => t.index === i);
+      const reviewers = findingReviewers(f, totalAgents);
+      return {
+        fingerprint: findingFingerprint(f),
+        ruleId: ruleIdFor(f.category),
+        file: f.file,
+        line: f.line,
+        package: record.packages ? packageForFile(f.file, record.packages)?.name ?? null : null,
+        severity: f.severity,
+        category: f.category,
+        title: f.title,
+        description: f.description,
+        suggestion: f.suggestion ?? null,
+        consensus: {
+          level: consensusLevel(f.agents.length, reviewers),
+          agents: f.agents.length,
+          totalAgents: reviewers,
+          score: f.consensusScore,
+          severitySpread: f.severitySpread ?? { [f.severity]: f.agents.length },
+        },
+        agents: f.agents,
+        status: f.status ?? null,
+        verification: f.verification ?? null,
+        triage: triage ? { decision: triage.decision, reason: triage.reason ?? null } : null,
+      };
+    }),
+  };
+}
+
+// ─── SARIF 2.1.0 ──────────────────────────────────────────────────────────────
+
+const SARIF_LEVEL: Record<Severity, "error" | "warning" | "note"> = {
+  critical: "error",
+  warning: "warning",
+  suggestion: "note",
+};
+
+export function toSarif(record: ReviewRecord): object {
+  const json = toReviewJson(record);
+  const ruleIds = [...new Set(json.findings.map((f) => f.ruleId))].sort();
+  const categoryOf = new Map(json.findings.map((f) => [f.ruleId, f.category]));
+
+  const run: Record<string, unknown> = {
+    tool: {
+      driver: {
+        name: "wyebot-review",
+        rules: ruleIds.map((id) => ({
+          id,
+          name: categoryOf.get(id),
+          shortDescription: { text: `Code review: ${categoryOf.get(id)}` },
+        })),
+      },
+    },
+    automationDetails: { id: `${record.command}/${record.id}` },
+    invocations: [{
+      executionSuccessful: json.agents.some((a) => a.status === "ok"),
+      startTimeUtc: record.startedAt,
+      endTimeUtc: record.finishedAt,
+    }],
+    results: json.findings.map((f) => ({
+      ruleId: f.ruleId,
+      ruleIndex: ruleIds.indexOf(f.ruleId),
+      level: SARIF_LEVEL[f.severity],
+      message: { text: `${f.title}\n\n${f.description}` },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: f.file, uriBaseId: "%SRCROOT%" },
+          region: { startLine: Math.max(1, f.line) },
+        },
+      }],
+      partialFingerprints: { "wyebotFinding/v1": f.fingerprint },
+      properties: {
+        severity: f.severity,
+        category: f.category,
+        ...(f.package ? { package: f.package } : {}),
+        consensusLevel: f.consensus.level,
+        consensus: `${f.consensus.agents}/${f.consensus.totalAgents}`,
+        consensusScore: f.consensus.score,
+        severitySpread: f.consensus.severitySpread,
+        agents: f.agents,
+        ...(f.suggestion ? { suggestion: f.suggestion } : {}),
+        ...(f.status ? { status: f.status } : {}),
+        ...(f.verification ? { verification: f.verification } : {}),
+        ...(f.triage ? { triage: f.triage } : {}),
+      },
+    })),
+    properties: { reviewId: record.id, label: record.label, agents: json.agents },
+  };
+  if (record.repoSlug) {
+    run.versionControlProvenance = [{
+      repositoryUri: `https://github.com/${record.repoSlug}`,
+      ...(record.headSha ? { revisionId: record.headSha } : {}),
+      branch: record.branch,
+    }];
+  }
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [run],
+  };
+}
+
+// ─── Writing ──────────────────────────────────────────────────────────────────
+
+export function renderExport(record: ReviewRecord, format: ExportFormat): string {
+  if (format === "markdown") return renderReviewRecord(record);
+  const doc = format === "sarif" ? toSarif(record) : toReviewJson(record);
+  return JSON.stringify(doc, null, 2) + "\n";
+}
+
+/** Write `record` in `format` to `outPath` (parent directories created). */
+export function writeReviewExport(record: ReviewRecord, format: ExportFormat, outPath: string): void {
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, renderExport(record, format));
+}
@@ -0,0 +1,51 @@
+import { findingReviewers, SEVERITY_WEIGHT } from "./consolidate";
+import { consensusLevel, type ConsensusLevel } from "./export";
+import type { ConsolidatedFinding, ReviewRecord, Severity } from "./types";
+
+// ─── Merge gate ───────────────────────────────────────────────────────────────
+//
+// /review-ci fails a pipeline when findings at or above a severity remain with
+// at least a given consensus (within the finding's category in persona mode). Findings dismissed or marked false positive in
+// /review-triage never reach the record, so they never block.
+
+export type FailOn = Severity | "none";
+
+export const FAIL_ON_VALUES: FailOn[] = ["critical", "warning", "suggestion", "none"];
+
+export const CONSENSUS_LEVELS: ConsensusLevel[] = ["single", "minority", "majority", "unanimous"];
+
+export interface GateOptions {
+  failOn: FailOn;
+  minConsensus: ConsensusLevel;
+}
+
+export const DEFAULT_GATE: GateOptions = { failOn: "critical", minConsensus: "single" };
+
+/** Findings of `record` that fail the gate. */
+export function blockingFindings(record: ReviewRecord, options: GateOptions): ConsolidatedFinding[] {
+  if (options.failOn === "none") return [];
+  const minSeverity = SEVERITY_WEIGHT[options.failOn];
+  const minRank = CONSENSUS_LEVELS.indexOf(options.minConsensus);
+  const totalAgents = record.models.length;
+  return record.findings.filter((f) =>
+    SEVERITY_WEIGHT[f.severity] >= minSeverity
+    && CONSENSUS_LEVELS.indexOf(consensusLevel(f.agents.length, findingReviewers(f, totalAgents))) >= minRank,
+  );
+}
+
+export function describeGate(options: GateOptions): string {
+  if (options.failOn === "none") return "report only";
+  const consensus = options.minConsensus === "single" ? "" : ` with ${options.minConsensus} consensus or more`;
+  return `fail on ${options.failOn}${options.failOn === "critical" ? "" : " or worse"}${consensus}`;
+}
+
+export function formatGateSummary(record: ReviewRecord, options: GateOptions, blocking: ConsolidatedFinding[]): string {
+  let text = blocking.length === 0
+    ? `✅ Review gate passed (${describeGate(options)}) — ${record.findings.length} finding(s), none blocking.\n`
+    : `❌ Review gate failed (${describeGate(options)}) — ${blocking.length} of ${record.findings.length} finding(s) blocking:\n`;
+  const totalAgents = record.models.length;
+  for (const f of blocking) {
+    text += `  - [${f.severity}] ${f.file}:${f.line} — ${f.title} (${f.agents.length}/${findingReviewers(f, totalAgents)} agents)\n`;
+  }
+  return text;
+}
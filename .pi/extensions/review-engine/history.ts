@@ -0,0 +1,136 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { formatReport } from "./report";
+import type { ReviewRecord } from "./types";
+
+// ─── Review history storage ───────────────────────────────────────────────────
+//
+// One JSON file per finished run under <workspace>/.pi/reviews/. The
+// directory is per-user (gitignored) like .pi/sessions/.
+
+export function getReviewsDir(cwd: string): string {
+  return path.join(cwd, ".pi", "reviews");
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "review";
+}
+
+/** Sortable, filesystem-safe id: 2026-01-31T10-22-05-parallel-review-my-repo-feature-x */
+export function makeReviewId(startedAt: Date, command: string, repo: string, branch: string): string {
+  const stamp = startedAt.toISOString().replace(/\.\d+Z$/, "").replace(/:/g, "-");
+  return `${stamp}-${command}-${slugify(`${repo}-${branch}`)}`;
+}
+
+export function saveReviewRecord(cwd: string, record: ReviewRecord): string {
+  const dir = getReviewsDir(cwd);
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, `${record.id}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(record, null, 2) + "\n");
+  return filePath;
+}
+
+export function loadReviewRecord(cwd: string, id: string): ReviewRecord | null {
+  const filePath = path.join(getReviewsDir(cwd), `${id}.json`);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export interface ReviewHistoryFilter {
+  repo?: string;
+  branch?: string;
+}
+
+/** `[repo] [branch]` command args: a token naming a known repo is the repo, anything else the branch. */
+export function parseHistoryFilter(args: string, knownRepos: Set<string>): ReviewHistoryFilter {
+  const filter: ReviewHistoryFilter = {};
+  for (const token of args.trim().split(/\s+/).filter(Boolean)) {
+    if (!filter.repo && knownRepos.has(token)) filter.repo = token;
+    else filter.branch = token;
+  }
+  return filter;
+}
+
+/** All stored reviews matching `filter`, newest first. Unreadable files are skipped. */
+export function listReviewRecords(cwd: string, filter: ReviewHistoryFilter = {}): ReviewRecord[] {
+  const dir = getReviewsDir(cwd);
+  if (!fs.existsSync(dir)) return [];
+  const records: ReviewRecord[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith(".json")) continue;
+    const record = loadReviewRecord(cwd, file.slice(0, -".json".length));
+    if (!record) continue;
+    if (filter.repo && record.repo !== filter.repo) continue;
+    if (filter.branch && record.branch !== filter.branch) continue;
+    records.push(record);
+  }
+  return records.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// ─── Session lookup ───────────────────────────────────────────────────────────
+
+/** customTypes of the messages that carry a review report (details.reviewId). */
+export const REVIEW_REPORT_TYPES = new Set([
+  "code-review-report",
+  "parallel-review-report",
+  "parallel-review-lite-report",
+  "review-history-report",
+]);
+
+/** Newest review report shown in the current session branch, loaded from history. */
+export function findSessionReview(ctx: ExtensionContext): ReviewRecord | null {
+  const entries = ctx.sessionManager.getBranch();
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.type !== "custom_message" || !REVIEW_REPORT_TYPES.has(entry.customType)) continue;
+    const reviewId = (entry.details as { reviewId?: string } | undefined)?.reviewId;
+    if (!reviewId) continue;
+    const record = loadReviewRecord(ctx.cwd, reviewId);
+    if (record) return record;
+  }
+  return null;
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+export function shortSha(sha: string | null | undefined): string {
+  return sha ? sha.slice(0, 7) : "?";
+}
+
+/** One-line summary used in pickers. */
+export function describeReviewRecord(record: ReviewRecord): string {
+  const date = record.startedAt.replace("T", " ").slice(0, 16);
+  const counts = ["critical", "warning", "suggestion"]
+    .map((s) => record.findings.filter((f) => f.severity === s).length)
+    .join("/");
+  return `${date} · /${record.command} · ${record.label} · ${counts} (crit/warn/sugg) · ${shortSha(record.headSha)}`;
+}
+
+/** Re-render a stored run exactly as its command formatted it, with a provenance line on top. */
+export function renderReviewRecord(record: ReviewRecord): string {
+  const report = formatReport(record.results, record.findings, {
+    label: record.label,
+    branch: record.branch,
+    baseBranch: record.baseBranch,
+    filesChanged: record.changedFiles.length,
+    commitCount: record.commitCount,
+    totalAgents: record.models.length,
+    resolvedFindings: record.resolvedFindings,
+    suppressedFindings: record.suppressedFindings,
+    verification: record.verification,
+    refutedFindings: record.refutedFindings,
+    budget: record.budget,
+    coverage: record.coverage,
+    chunkCount: record.chunkCount,
+    packages: record.packages,
+  }, record.reportStyle);
+  const seconds = (record.durationMs / 1000).toFixed(0);
+  const provenance = `> 🗂 Saved review \`${record.id}\` — /${record.command} on ${record.startedAt.replace("T", " ").slice(0, 19)} UTC · `
+    + `${shortSha(record.baseSha)}..${shortSha(record.headSha)} · ${seconds}s\n\n`;
+  return provenance + report;
+}
@@ -0,0 +1,186 @@
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { compareFindings, findingSimilarity, SIMILARITY_THRESHOLD } from "./consolidate";
+import { listReviewRecords, shortSha } from "./history";
+import { filesFromDiff } from "./target";
+import type { ConsolidatedFinding, ReviewRecord, ReviewTarget } from "./types";
+
+// ─── Incremental re-review ────────────────────────────────────────────────────
+//
+// A re-review takes the newest stored run for the same PR (or branch), reviews
+// only prevHead..head, and labels findings against the previous run:
+//   new           — found now, no similar finding before
+//   still present — found before and either found again or not touched since
+//   resolved      — found before, the code around it changed, not found again
+
+/** Lines of a finding's neighbourhood that count as "touched" (matches findingSimilarity). */
+const LINE_PROXIMITY = 15;
+
+/** Newest stored run for the same PR (or the same branch when not a PR) with a known head SHA. */
+export function findPreviousReview(cwd: string, target: ReviewTarget): ReviewRecord | null {
+  const candidates = listReviewRecords(cwd, { repo: target.repo }).filter((r) => r.headSha);
+  return candidates.find((r) =>
+    target.prNumber !== undefined ? r.prNumber === target.prNumber : r.branch === target.branch,
+  ) ?? null;
+}
+
+async function hasCommit(pi: ExtensionAPI, repoCwd: string, sha: string): Promise<boolean> {
+  const { code } = await pi.exec("git", ["-C", repoCwd, "cat-file", "-e", `${sha}^{commit}`]);
+  return code === 0;
+}
+
+/**
+ * Diff and commit count between two SHAs. Prefers the local clone (fetching
+ * the SHAs if needed); falls back to the GitHub compare API for PRs whose
+ * repo isn't cloned. Returns an error when the old head is no longer an
+ * ancestor (force push) since "what changed since" is then meaningless.
+ */
+async function diffSince(
+  pi: ExtensionAPI,
+  target: ReviewTarget,
+  fromSha: string,
+  toSha: string,
+): Promise<{ diff: string; commitCount: number } | { error: string }> {
+  const cwd = target.repoCwd;
+  if (!(await hasCommit(pi, cwd, fromSha)) || !(await hasCommit(pi, cwd, toSha))) {
+    await pi.exec("git", ["-C", cwd, "fetch", "--quiet", "origin", fromSha, toSha]);
+  }
+
+  if ((await hasCommit(pi, cwd, fromSha)) && (await hasCommit(pi, cwd, toSha))) {
+    const { code: ancestorCode } = await pi.exec("git", ["-C", cwd, "merge-base", "--is-ancestor", fromSha, toSha]);
+    if (ancestorCode !== 0) return { error: `${shortSha(fromSha)} is no longer an ancestor of ${shortSha(toSha)} (force push?).` };
+    const [diffResult, countResult] = await Promise.all([
+      pi.exec("git", ["-C", cwd, "diff", `${fromSha}..${toSha}`]),
+      pi.exec("git", ["-C", cwd, "rev-list", "--count", `${fromSha}..${toSha}`]),
+    ]);
+    if (diffResult.code !== 0) return { error: `git diff failed: ${diffResult.stderr.trim()}` };
+    return { diff: diffResult.stdout, commitCount: parseInt(countResult.stdout.trim(), 10) || 0 };
+  }
+
+  if (!target.repoSlug) return { error: "Previous head commit is not available locally." };
+  const compare = `repos/${target.repoSlug}/compare/${fromSha}...${toSha}`;
+  const [diffResult, metaResult] = await Promise.all([
+    pi.exec("gh", ["api", "-H", "Accept: application/vnd.github.v3.diff", compare]),
+    pi.exec("gh", ["api", compare, "--jq", ".status + \" \" + (.total_commits | tostring)"]),
+  ]);
+  if (diffResult.code !== 0) return { error: `Failed to fetch compare diff: ${diffResult.stderr.trim()}` };
+  const [status, total] = metaResult.stdout.trim().split(" ");
+  if (status === "diverged" || status === "behind") {
+    return { error: `${shortSha(fromSha)} is no longer an ancestor of ${shortSha(toSha)} (force push?).` };
+  }
+  return { diff: diffResult.stdout, commitCount: parseInt(total, 10) || 0 };
+}
+
+/**
+ * Offer a re-review when a previous run exists for this PR/branch.
+ * Returns the (possibly narrowed) target plus the previous run it continues
+ * from, or null when there is nothing new to review and the user declined a
+ * full review.
+ */
+export async function resolveIncrementalReview(
+  pi: ExtensionAPI,
+  ctx: ExtensionContext,
+  target: ReviewTarget,
+): Promise<{ target: ReviewTarget; previous: ReviewRecord | null } | null> {
+  const full = { target, previous: null };
+  if (!ctx.hasUI) return full;
+  const previous = findPreviousReview(ctx.cwd, target);
+  if (!previous?.headSha || !target.headSha) return full;
+
+  const when = previous.startedAt.replace("T", " ").slice(0, 16);
+  if (previous.headSha === target.headSha) {
+    const again = await ctx.ui.confirm(
+      "No new commits",
+      `${target.label} was already reviewed at ${shortSha(previous.headSha)} (${when}). Run a full review again?`,
+    );
+    return again ? full : null;
+  }
+
+  const choice = await ctx.ui.select(`Previous review found (${shortSha(previous.headSha)}, ${when}, ${previous.findings.length} findings):`, [
+    `Re-review only commits since ${shortSha(previous.headSha)}`,
+    "Full review",
+  ]);
+  if (!choice?.startsWith("Re-review")) return full;
+
+  const since = await diffSince(pi, target, previous.headSha, target.headSha);
+  if ("error" in since) {
+    ctx.ui.notify(`${since.error} Running a full review instead.`, "warning");
+    return full;
+  }
+  if (!since.diff.trim()) {
+    ctx.ui.notify(`No code changes since ${shortSha(previous.headSha)} — nothing to re-review.`, "info");
+    return null;
+  }
+
+  return {
+    target: {
+      ...target,
+      diff: since.diff,
+      changedFiles: filesFromDiff(since.diff),
+      commitCount: since.commitCount,
+      baseSha: previous.headSha,
+      label: `${target.label} — since ${shortSha(previous.headSha)}`,
+    },
+    previous,
+  };
+}
+
+// ─── Labelling ────────────────────────────────────────────────────────────────
+
+/** Old-side line ranges touched per file, from `@@ -start,count +… @@` hunk headers. */
+export function touchedOldRanges(diff: string): Map<string, Array<[number, number]>> {
+  const ranges = new Map<string, Array<[number, number]>>();
+  let current: Array<[number, number]> | null = null;
+  for (const line of diff.split("\n")) {
+    const file = line.match(/^diff --git a\/(.+?) b\//);
+    if (file) {
+      current = [];
+      ranges.set(file[1], current);
+      continue;
+    }
+    const hunk = line.match(/^@@ -(\d+)(?:,(\d+))? \+/);
+    if (hunk && current) {
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      current.push([start, start + Math.max(count, 1) - 1]);
+    }
+  }
+  return ranges;
+}
+
+function isTouched(finding: ConsolidatedFinding, ranges: Map<string, Array<[number, number]>>): boolean {
+  const fileRanges = ranges.get(finding.file);
+  if (!fileRanges) return false;
+  return fileRanges.some(([start, end]) =>
+    finding.line >= start - LINE_PROXIMITY && finding.line <= end + LINE_PROXIMITY,
+  );
+}
+
+/**
+ * Label `current` findings (from the incremental diff) against the previous
+ * run. Previous findings that weren't matched are carried over as "still
+ * present" when their code wasn't touched, or reported as resolved.
+ */
+export function labelAgainstPrevious(
+  current: ConsolidatedFinding[],
+  previous: ReviewRecord,
+  incrementalDiff: string,
+): { findings: ConsolidatedFinding[]; resolved: ConsolidatedFinding[] } {
+  const ranges = touchedOldRanges(incrementalDiff);
+  const matchedPrevious = new Set<ConsolidatedFinding>();
+
+  const labelled = current.map((finding): ConsolidatedFinding => {
+    const match = previous.findings.find((p) => !matchedPrevious.has(p) && findingSimilarity(finding, p) >= SIMILARITY_THRESHOLD);
+    if (match) matchedPrevious.add(match);
+    return { ...finding, status: match ? "still present" : "new" };
+  });
+
+  const carried: ConsolidatedFinding[] = [];
+  const resolved: ConsolidatedFinding[] = [];
+  for (const p of previous.findings) {
+    if (matchedPrevious.has(p)) continue;
+    if (isTouched(p, ranges)) resolved.push({ ...p, status: "resolved" });
+    else carried.push({ ...p, status: "still present" });
+  }
+
+  return { findings: [...labelled, ...carried].sort(compareFindings), resolved };
+}
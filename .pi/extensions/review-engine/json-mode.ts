@@ -0,0 +1,57 @@
+import { fileURLToPath } from "node:url";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+
+// ─── Native JSON mode ─────────────────────────────────────────────────────────
+//
+// A pi extension, loaded with `-e` into reviewer processes that run without
+// tools (inline reviews and repair turns). It switches the provider request to
+// the API's own JSON output mode, so the answer is a JSON object by
+// construction instead of by instruction. APIs without such a switch
+// (Anthropic, Bedrock) keep relying on the prompt and the schema check.
+
+/** Path to pass to `pi -e`. */
+export const JSON_MODE_EXTENSION = fileURLToPath(import.meta.url);
+
+/** openai-completions is shared by many OpenAI-compatible hosts; only these accept `response_format`. */
+const COMPLETIONS_JSON_PROVIDERS = new Set(["openai", "deepseek", "xai", "groq", "openrouter"]);
+
+export function supportsJsonMode(api: string | undefined, provider: string): boolean {
+  switch (api) {
+    case "openai-completions": return COMPLETIONS_JSON_PROVIDERS.has(provider);
+    case "openai-responses":
+    case "azure-openai-responses":
+    case "google-generative-ai":
+    case "google-vertex":
+    case "mistral-conversations":
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** `payload` with the JSON switch of `api` set; undefined to leave it alone (it carries tools). */
+function withJsonMode(api: string, payload: any): unknown {
+  if (!payload || typeof payload !== "object") return undefined;
+  switch (api) {
+    case "openai-completions":
+      return payload.tools?.length ? undefined : { ...payload, response_format: { type: "json_object" } };
+    case "openai-responses":
+    case "azure-openai-responses":
+      return payload.tools?.length ? undefined : { ...payload, text: { ...payload.text, format: { type: "json_object" } } };
+    case "google-generative-ai":
+    case "google-vertex":
+      return payload.config?.tools?.length ? undefined : { ...payload, config: { ...payload.config, responseMimeType: "application/json" } };
+    case "mistral-conversations":
+      return payload.tools?.length ? undefined : { ...payload, responseFormat: { type: "json_object" } };
+    default:
+      return undefined;
+  }
+}
+
+export default function (pi: ExtensionAPI) {
+  pi.on("before_provider_request", (event, ctx) => {
+    const model = ctx.model;
+    if (!model || !supportsJsonMode(model.api, model.provider)) return undefined;
+    return withJsonMode(model.api, event.payload);
+  });
+}
@@ -0,0 +1,218 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { loadProjectConfig, type ReviewModelConfig } from "./config";
+import type { ModelSelection, ReviewStrategy } from "./types";
+
+// ─── Model preferences ────────────────────────────────────────────────────────
+
+export const CLAUDE_PREFERRED = [
+  "claude-opus-4-6",
+  "claude-sonnet-4-5-20250929",
+  "claude-haiku-4-5-20251001",
+];
+
+export const EXTRA_PROVIDER_PREFERRED = new Map<string, string>([
+  ["openai", "gpt-5.1-codex"],
+  ["openai-codex", "gpt-5.3-codex"],
+  ["google", "gemini-2.5-pro"],
+  ["google-gemini-cli", "gemini-2.5-pro"],
+  ["google-antigravity", "gemini-3-pro-high"],
+  ["google-vertex", "gemini-3-pro-preview"],
+  ["azure-openai-responses", "gpt-5.2"],
+  ["github-copilot", "gpt-4o"],
+  ["openrouter", "openai/gpt-5.1-codex"],
+  ["xai", "grok-4-fast-non-reasoning"],
+  ["groq", "openai/gpt-oss-120b"],
+  ["mistral", "devstral-medium-latest"],
+  ["deepseek", "deepseek-chat"],
+  ["cerebras", "zai-glm-4.6"],
+  ["huggingface", "moonshotai/Kimi-K2.5"],
+]);
+
+// ─── Model selection ──────────────────────────────────────────────────────────
+
+type AvailableModel = ReturnType<ExtensionContext["modelRegistry"]["getAvailable"]>[number];
+type RosterBudget = Pick<ReviewStrategy, "maxModels" | "maxClaudeModels" | "liteRoster">;
+
+export interface RosterPlan {
+  models: ModelSelection[];
+  /** "project.yml" when review.models is configured, else the built-in preferences. */
+  source: "project.yml" | "defaults";
+  /** One line per decision (picked, fallback used, unavailable, duplicate, over the cap) for /review-models. */
+  notes: string[];
+}
+
+function toSelection(m: AvailableModel): ModelSelection {
+  return { provider: m.provider, modelId: m.id, displayName: m.name || m.id };
+}
+
+/** "provider/model" — split on the first slash, model ids may contain more (openrouter). */
+function parseModelRef(ref: string): { provider: string; model: string } | null {
+  const slash = ref.indexOf("/");
+  if (slash <= 0 || slash === ref.length - 1) return null;
+  return { provider: ref.slice(0, slash).trim(), model: ref.slice(slash + 1).trim() };
+}
+
+function isModelEntry(entry: unknown): entry is ReviewModelConfig {
+  const e = entry as ReviewModelConfig | null;
+  return !!e && typeof e.provider === "string" && typeof e.model === "string";
+}
+
+/**
+ * Roster from project.yml `review.models`: each entry (or the first available
+ * model of its fallback chain) with its weight, role and timeout. Lite
+ * strategies use the `lite: true` entries — or the first ones when none is
+ * flagged. Models already picked by an earlier entry are passed over for the
+ * next ref of the chain, so the same model never votes twice. `maxModels` still caps the roster.
+ */
+function planConfiguredRoster(available: AvailableModel[], entries: ReviewModelConfig[], budget: RosterBudget): RosterPlan {
+  const notes: string[] = [];
+  const flagged = entries.filter((e) => e.lite);
+  let candidates = entries;
+  if (budget.liteRoster) {
+    if (flagged.length > 0) {
+      candidates = flagged;
+      notes.push(`Lite subset: ${flagged.length} of ${entries.length} entries marked \`lite: true\`.`);
+    } else {
+      notes.push("No entry marked `lite: true` — using the first entries of the roster.");
+    }
+  }
+
+  const models: ModelSelection[] = [];
+  const pickedModels = new Set<string>();
+  for (const entry of candidates) {
+    const primary = `${entry.provider}/${entry.model}`;
+    const chain = [primary, ...(Array.isArray(entry.fallback) ? entry.fallback : [])];
+    let picked: AvailableModel | undefined;
+    let pickedRef = primary;
+    // Available refs passed over because an earlier entry already picked that model
+    const taken: string[] = [];
+    for (const ref of chain) {
+      const parsed = parseModelRef(String(ref));
+      if (!parsed) {
+        notes.push(`⚠️ \`${ref}\` is not a provider/model pair — ignored.`);
+        continue;
+      }
+      const found = available.find((m) => m.provider === parsed.provider && m.id === parsed.model);
+      if (found && pickedModels.has(`${found.provider}/${found.id}`)) {
+        taken.push(ref);
+        continue;
+      }
+      if (found) {
+        picked = found;
+        pickedRef = ref;
+        break;
+      }
+    }
+    if (!picked) {
+      if (taken.length > 0) {
+        const inRoster = taken.length === 1 && taken[0] === primary ? "already in the roster" : `${taken.join(", ")} already in the roster`;
+        const rest = chain.length > 1 ? " and no other fallback available" : "";
+        notes.push(`⏭️ ${primary} — ${inRoster}${rest}; skipped.`);
+        continue;
+      }
+      const tried = chain.length > 1 ? ` (nor its fallbacks: ${chain.slice(1).join(", ")})` : "";
+      notes.push(`❌ ${primary} — not available${tried}; skipped.`);
+      continue;
+    }
+    if (budget.maxModels && models.length >= budget.maxModels) {
+      notes.push(`✂️ ${pickedRef} — over the ${budget.maxModels}-model limit of this command.`);
+      continue;
+    }
+
+    const selection = toSelection(picked);
+    if (typeof entry.weight === "number" && entry.weight > 0) selection.weight = entry.weight;
+    if (entry.role) {
+      selection.role = String(entry.role);
+      selection.displayName = `${selection.displayName} (${selection.role})`;
+    }
+    if (typeof entry.timeout === "number" && entry.timeout > 0) selection.timeoutMs = entry.timeout * 1000;
+    models.push(selection);
+    pickedModels.add(`${picked.provider}/${picked.id}`);
+
+    const details = [
+      selection.weight !== undefined ? `weight ${selection.weight}` : "",
+      selection.role ? `role: ${selection.role}` : "",
+      selection.timeoutMs ? `timeout ${entry.timeout}s` : "",
+    ].filter(Boolean).join(" · ");
+    const passedOver = taken.length > 0 ? `${taken.join(", ")} already in the roster` : "";
+    const via = pickedRef === primary
+      ? "configured"
+      : `fallback for ${primary} (${taken.includes(primary) ? passedOver : ["not available", passedOver].filter(Boolean).join("; ")})`;
+    notes.push(`✅ ${pickedRef} — ${via}${details ? ` · ${details}` : ""}`);
+  }
+  return { models, source: "project.yml", notes };
+}
+
+/**
+ * Built-in roster: up to `maxClaudeModels` preferred Claude models (or one
+ * fewer of whatever Claude is available), then one model per extra provider,
+ * capped at `maxModels`.
+ */
+function planDefaultRoster(available: AvailableModel[], budget: RosterBudget): RosterPlan {
+  const { maxModels } = budget;
+  const claudeLimit = maxModels ? Math.min(budget.maxClaudeModels, maxModels) : budget.maxClaudeModels;
+  const models: ModelSelection[] = [];
+  const notes: string[] = [];
+
+  const claudeModels = available.filter((m) => m.provider === "anthropic");
+  for (const preferredId of CLAUDE_PREFERRED) {
+    if (models.length >= claudeLimit) break;
+    const found = claudeModels.find((m) => m.id === preferredId);
+    if (found) {
+      models.push(toSelection(found));
+      notes.push(`✅ anthropic/${found.id} — preferred Claude model (${models.length}/${claudeLimit})`);
+    }
+  }
+  // If no preferred Claude found, take whatever Claude is available
+  if (models.length === 0) {
+    for (const m of claudeModels.slice(0, Math.max(1, claudeLimit - 1))) {
+      models.push(toSelection(m));
+      notes.push(`✅ anthropic/${m.id} — no preferred Claude model available, first available one`);
+    }
+  }
+
+  // 1 agent per extra configured provider
+  for (const [provider, defaultModelId] of EXTRA_PROVIDER_PREFERRED) {
+    const providerModels = available.filter((m) => m.provider === provider);
+    if (providerModels.length === 0) continue;
+    const best = providerModels.find((m) => m.id === defaultModelId) ?? providerModels[0];
+    if (maxModels && models.length >= maxModels) {
+      notes.push(`✂️ ${provider}/${best.id} — over the ${maxModels}-model limit of this command.`);
+      continue;
+    }
+    models.push(toSelection(best));
+    notes.push(best.id === defaultModelId
+      ? `✅ ${provider}/${best.id} — preferred model for ${provider}`
+      : `✅ ${provider}/${best.id} — first ${provider} model (preferred ${defaultModelId} not available)`);
+  }
+
+  return { models, source: "defaults", notes };
+}
+
+/**
+ * Work out the review roster for a strategy and explain each decision.
+ * project.yml `review.models` wins when it lists at least one entry;
+ * otherwise the built-in preferences pick from the models that have
+ * credentials configured.
+ */
+export function planReviewRoster(ctx: ExtensionContext, budget: RosterBudget): RosterPlan {
+  const available = ctx.modelRegistry.getAvailable();
+  const configured = loadProjectConfig(ctx.cwd)?.review?.models;
+  const entries = (Array.isArray(configured) ? configured : []).filter(isModelEntry);
+  return entries.length > 0 ? planConfiguredRoster(available, entries, budget) : planDefaultRoster(available, budget);
+}
+
+export function getReviewModels(ctx: ExtensionContext, budget: RosterBudget): ModelSelection[] {
+  return planReviewRoster(ctx, budget).models;
+}
+
+/** Markdown description of a roster plan, used by /review-models. */
+export function formatRosterPlan(title: string, plan: RosterPlan): string {
+  const source = plan.source === "project.yml"
+    ? "from `review.models` in project.yml"
+    : "built-in preferences (no `review.models` in project.yml)";
+  let out = `### ${title} — ${plan.models.length} agent(s)\n\n_Roster: ${source}_\n\n`;
+  if (plan.models.length === 0) out += "**No model available** — check your API key configuration.\n\n";
+  for (const note of plan.notes) out += `- ${note}\n`;
+  return out + "\n";
+}
@@ -0,0 +1,272 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { chunkDiff, singleChunk, splitDiffByFile, type ChunkPlan, type DiffChunk } from "./chunking";
+import { globToRegExp } from "./rules";
+import type { PackageSlice, ReviewStrategy } from "./types";
+
+// ─── Monorepo packages ────────────────────────────────────────────────────────
+//
+// In a monorepo the diff is split per workspace package: every package's
+// slice is reviewed as its own chunk, with the package's manifest summary and
+// memory file in the prompt, and the report groups findings by package.
+// Workspaces come from package.json `workspaces`, pnpm-workspace.yaml,
+// Cargo.toml `[workspace] members` and go.work `use` directives.
+
+export type WorkspaceKind = "npm" | "pnpm" | "cargo" | "go";
+
+export interface WorkspacePackage {
+  name: string;
+  /** Relative to the repo root, forward slashes, no trailing slash. */
+  dir: string;
+  kind: WorkspaceKind;
+}
+
+export const ROOT_PACKAGE = "(root)";
+
+const MANIFEST: Record<WorkspaceKind, string> = {
+  npm: "package.json",
+  pnpm: "package.json",
+  cargo: "Cargo.toml",
+  go: "go.mod",
+};
+
+/** Glob members (`packages/*`, `crates/**`) are matched against directories up to this depth. */
+const MAX_WALK_DEPTH = 4;
+const SKIPPED_DIRS = new Set(["node_modules", "target", "dist", "build", "vendor"]);
+
+const MAX_PACKAGE_MEMORY_CHARS = 6_000;
+const MAX_LISTED_DEPENDENCIES = 30;
+
+function readText(file: string): string | null {
+  try { return fs.readFileSync(file, "utf-8"); } catch { return null; }
+}
+
+function readJson(file: string): any {
+  const text = readText(file);
+  if (!text) return null;
+  try { return JSON.parse(text); } catch { return null; }
+}
+
+/** `key = [ "a", "b" ]` (possibly multi-line) inside a TOML section. */
+function tomlArray(section: string, key: string): string[] {
+  const match = section.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, "m"));
+  return match ? Array.from(match[1].matchAll(/"([^"]+)"|'([^']+)'/g), (m) => m[1] ?? m[2]) : [];
+}
+
+/** Body of a `[name]` TOML section, up to the next section header. */
+function tomlSection(text: string, name: string): string | null {
+  const start = text.search(new RegExp(`^\\[${name.replace(/\./g, "\\.")}\\]\\s*$`, "m"));
+  if (start < 0) return null;
+  const body = text.slice(start).split("\n").slice(1);
+  const end = body.findIndex((line) => /^\s*\[/.test(line));
+  return (end < 0 ? body : body.slice(0, end)).join("\n");
+}
+
+/** Member patterns per workspace tool found at the repo root; `!pattern` excludes. */
+function workspacePatterns(repoCwd: string): Array<{ kind: WorkspaceKind; patterns: string[] }> {
+  const found: Array<{ kind: WorkspaceKind; patterns: string[] }> = [];
+
+  const pkg = readJson(path.join(repoCwd, "package.json"));
+  const npmWorkspaces = Array.isArray(pkg?.workspaces) ? pkg.workspaces : pkg?.workspaces?.packages;
+  if (Array.isArray(npmWorkspaces)) found.push({ kind: "npm", patterns: npmWorkspaces.map(String) });
+
+  const pnpmText = readText(path.join(repoCwd, "pnpm-workspace.yaml"));
+  if (pnpmText) {
+    try {
+      const packages = (parseYaml(pnpmText) as { packages?: unknown })?.packages;
+      if (Array.isArray(packages)) found.push({ kind: "pnpm", patterns: packages.map(String) });
+    } catch {}
+  }
+
+  const cargoText = readText(path.join(repoCwd, "Cargo.toml"));
+  const cargoWorkspace = cargoText ? tomlSection(cargoText, "workspace") : null;
+  if (cargoWorkspace !== null) {
+    const members = tomlArray(cargoWorkspace, "members");
+    const excluded = tomlArray(cargoWorkspace, "exclude").map((p) => `!${p}`);
+    found.push({ kind: "cargo", patterns: [...members, ...excluded] });
+  }
+
+  const goWork = readText(path.join(repoCwd, "go.work"));
+  if (goWork) {
+    const uses: string[] = [];
+    for (const block of goWork.matchAll(/^use\s*\(([\s\S]*?)\)/gm)) {
+      uses.push(...block[1].split("\n").map((l) => l.replace(/\/\/.*$/, "").trim()).filter(Boolean));
+    }
+    for (const line of goWork.matchAll(/^use\s+([^\s(]+)/gm)) uses.push(line[1]);
+    found.push({ kind: "go", patterns: uses });
+  }
+
+  return found;
+}
+
+function normalizeDir(dir: string): string {
+  return dir.replace(/\\/g, "/").replace(/^\.\/+/, "").replace(/\/+$/, "").replace(/^\.$/, "");
+}
+
+/** Directories under `root` (relative, forward slashes), skipping hidden and build/vendor dirs. */
+function listDirs(root: string, depth = MAX_WALK_DEPTH, prefix = ""): string[] {
+  if (depth === 0) return [];
+  let entries: fs.Dirent[];
+  try { entries = fs.readdirSync(path.join(root, prefix), { withFileTypes: true }); } catch { return []; }
+  const dirs: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith(".") || SKIPPED_DIRS.has(entry.name)) continue;
+    const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+    dirs.push(rel, ...listDirs(root, depth - 1, rel));
+  }
+  return dirs;
+}
+
+function packageName(repoCwd: string, dir: string, kind: WorkspaceKind): string {
+  const manifest = path.join(repoCwd, dir, MANIFEST[kind]);
+  if (kind === "npm" || kind === "pnpm") return readJson(manifest)?.name || dir || ROOT_PACKAGE;
+  const text = readText(manifest) || "";
+  if (kind === "cargo") {
+    const name = (tomlSection(text, "package") || "").match(/^\s*name\s*=\s*["']([^"']+)["']/m)?.[1];
+    return name || dir || ROOT_PACKAGE;
+  }
+  return text.match(/^module\s+(\S+)/m)?.[1] || dir || ROOT_PACKAGE;
+}
+
+/** Workspace packages declared at the root of `repoCwd`; [] when it isn't a workspace. */
+export function detectWorkspacePackages(repoCwd: string): WorkspacePackage[] {
+  const byDir = new Map<string, WorkspacePackage>();
+  let allDirs: string[] | null = null;
+
+  for (const { kind, patterns } of workspacePatterns(repoCwd)) {
+    const include = patterns.filter((p) => !p.startsWith("!")).map(normalizeDir);
+    const exclude = patterns.filter((p) => p.startsWith("!")).map((p) => normalizeDir(p.slice(1)));
+    const candidates = new Set<string>();
+    for (const pattern of include) {
+      if (!/[*?]/.test(pattern)) candidates.add(pattern);
+      else {
+        allDirs ??= listDirs(repoCwd);
+        // A pattern without a slash ("*") only means top-level directories here
+        const re = globToRegExp(pattern);
+        for (const dir of allDirs) if (re.test(dir) && (pattern.includes("/") || !dir.includes("/"))) candidates.add(dir);
+      }
+    }
+    for (const dir of candidates) {
+      if (exclude.some((e) => globToRegExp(e).test(dir))) continue;
+      if (byDir.has(dir) || !fs.existsSync(path.join(repoCwd, dir, MANIFEST[kind]))) continue;
+      byDir.set(dir, { name: packageName(repoCwd, dir, kind), dir, kind });
+    }
+  }
+  return [...byDir.values()].sort((a, b) => a.dir.localeCompare(b.dir));
+}
+
+/** Deepest package containing `file`, or null when it is outside every package. */
+export function packageForFile<T extends { dir: string }>(file: string, packages: T[]): T | null {
+  let best: T | null = null;
+  for (const pkg of packages) {
+    if (pkg.dir && !file.startsWith(`${pkg.dir}/`)) continue;
+    if (!best || pkg.dir.length > best.dir.length) best = pkg;
+  }
+  return best;
+}
+
+/** Changed files grouped per package, in package order; files outside every package go last, under ROOT_PACKAGE. */
+export function groupFilesByPackage(files: string[], packages: WorkspacePackage[]): PackageSlice[] {
+  const slices = new Map<string, PackageSlice>();
+  const root: PackageSlice = { name: ROOT_PACKAGE, dir: "", files: [] };
+  for (const file of files) {
+    const pkg = packageForFile(file, packages.filter((p) => p.dir));
+    if (!pkg) { root.files.push(file); continue; }
+    if (!slices.has(pkg.dir)) slices.set(pkg.dir, { name: pkg.name, dir: pkg.dir, files: [] });
+    slices.get(pkg.dir)!.files.push(file);
+  }
+  const ordered = packages.map((p) => slices.get(p.dir)).filter((s): s is PackageSlice => !!s);
+  return root.files.length > 0 ? [...ordered, root] : ordered;
+}
+
+// ─── Package context ──────────────────────────────────────────────────────────
+
+/** memory/repos/<repo>/<package>.md — e.g. "@acme/ui" → memory/repos/web/acme-ui.md */
+export function packageMemoryPath(repo: string, packageName: string): string {
+  const slug = packageName.replace(/^@/, "").replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "root";
+  return path.join("memory", "repos", repo, `${slug}.md`);
+}
+
+function dependencyNames(repoCwd: string, pkg: WorkspacePackage): string[] {
+  const manifest = path.join(repoCwd, pkg.dir, MANIFEST[pkg.kind]);
+  if (pkg.kind === "npm" || pkg.kind === "pnpm") {
+    const json = readJson(manifest);
+    return Object.keys({ ...json?.dependencies, ...json?.peerDependencies });
+  }
+  const text = readText(manifest) || "";
+  if (pkg.kind === "cargo") {
+    const section = tomlSection(text, "dependencies") || "";
+    return Array.from(section.matchAll(/^\s*([\w-]+)\s*=/gm), (m) => m[1]);
+  }
+  const requires = text.match(/^require\s*\(([\s\S]*?)\)/m)?.[1] ?? "";
+  return requires.split("\n").map((l) => l.trim().split(/\s+/)[0]).filter((l) => l && !l.startsWith("//"));
+}
+
+/** Prompt block for one package slice: what the package is, what it depends on and its memory file. */
+export function formatPackageContext(cwd: string, repo: string, repoCwd: string, pkg: WorkspacePackage | null, slice: PackageSlice): string {
+  if (!pkg) {
+    return `This part of the diff is outside every workspace package (repo root: shared config, tooling, CI). `
+      + `Consider its effect on all packages.`;
+  }
+  let text = `This part of the diff belongs to the workspace package \`${pkg.name}\` (\`${pkg.dir}/\`, ${pkg.kind} workspace). `
+    + `Judge it by that package's own conventions and public API.`;
+  const description = pkg.kind === "npm" || pkg.kind === "pnpm"
+    ? readJson(path.join(repoCwd, pkg.dir, "package.json"))?.description
+    : undefined;
+  if (description) text += `\nDescription: ${description}`;
+  const deps = dependencyNames(repoCwd, pkg);
+  if (deps.length > 0) {
+    const more = deps.length > MAX_LISTED_DEPENDENCIES ? `, … (+${deps.length - MAX_LISTED_DEPENDENCIES})` : "";
+    text += `\nDependencies: ${deps.slice(0, MAX_LISTED_DEPENDENCIES).join(", ")}${more}`;
+  }
+  const memoryFile = packageMemoryPath(repo, slice.name);
+  let memory = readText(path.join(cwd, memoryFile));
+  if (memory?.trim()) {
+    if (memory.length > MAX_PACKAGE_MEMORY_CHARS) memory = memory.slice(0, MAX_PACKAGE_MEMORY_CHARS) + "\n[... truncated ...]";
+    text += `\n\nPackage memory (from ${memoryFile}):\n\n${memory.trim()}`;
+  }
+  return text;
+}
+
+// ─── Per-package chunk plan ───────────────────────────────────────────────────
+
+/**
+ * One or more chunks per package slice, never mixing packages. The strategy's
+ * chunk cap is shared out between packages, but every package gets at least
+ * one chunk so none is skipped outright.
+ */
+export function planPackageChunks(
+  cwd: string,
+  repo: string,
+  repoCwd: string,
+  diff: string,
+  slices: PackageSlice[],
+  packages: WorkspacePackage[],
+  strategy: ReviewStrategy,
+): ChunkPlan {
+  const fileDiffs = new Map(splitDiffByFile(diff).map((f) => [f.file, [f.header, ...f.hunks].join("\n")]));
+  const perPackageCap = strategy.maxChunks ? Math.max(1, Math.floor(strategy.maxChunks / slices.length)) : Infinity;
+
+  const chunks: DiffChunk[] = [];
+  const partialFiles: string[] = [];
+  const skippedFiles: string[] = [];
+  for (const slice of slices) {
+    // A changed file with no diff of its own would vanish from the slice; report it as skipped instead
+    const withDiff = slice.files.filter((f) => fileDiffs.has(f));
+    skippedFiles.push(...slice.files.filter((f) => !fileDiffs.has(f)));
+    if (withDiff.length === 0) continue;
+    const sliceDiff = withDiff.map((f) => fileDiffs.get(f)).join("\n");
+    const plan = strategy.mode === "inline" && strategy.chunkTokenBudget
+      ? chunkDiff(sliceDiff, strategy.chunkTokenBudget, perPackageCap)
+      : singleChunk(sliceDiff, withDiff);
+    const pkg = packages.find((p) => p.dir === slice.dir) ?? null;
+    const context = formatPackageContext(cwd, repo, repoCwd, pkg, slice);
+    for (const chunk of plan.chunks) {
+      chunks.push({ ...chunk, files: chunk.files.length > 0 ? chunk.files : withDiff, index: chunks.length, packageName: slice.name, context });
+    }
+    partialFiles.push(...plan.partialFiles);
+    skippedFiles.push(...plan.skippedFiles);
+  }
+  return { chunks, partialFiles, skippedFiles };
+}
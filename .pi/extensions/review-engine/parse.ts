@@ -0,0 +1,150 @@
+import { Type, type Static, type TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import type { ReviewAgentOutput, ReviewFinding } from "./types";
+
+// ─── Output schema ────────────────────────────────────────────────────────────
+//
+// The reviewer JSON is validated against this schema (after coercing numeric
+// strings). An answer that does not match gets one repair turn with the errors
+// below; only when that fails too does the lenient parser salvage what it can.
+
+const ReviewFindingSchema = Type.Object({
+  file: Type.String({ minLength: 1 }),
+  line: Type.Integer({ minimum: 0 }),
+  severity: Type.Union([Type.Literal("critical"), Type.Literal("warning"), Type.Literal("suggestion")]),
+  category: Type.String({ minLength: 1 }),
+  title: Type.String({ minLength: 1 }),
+  description: Type.String(),
+  suggestion: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+});
+
+export const ReviewOutputSchema = Type.Object({
+  findings: Type.Array(ReviewFindingSchema),
+  summary: Type.String(),
+  score: Type.Number({ minimum: 1, maximum: 10 }),
+});
+
+type ReviewOutputJson = Static<typeof ReviewOutputSchema>;
+
+/** Errors listed in a repair prompt; the model only needs the first few to see the pattern. */
+const MAX_REPORTED_ERRORS = 8;
+
+// ─── JSON extraction ──────────────────────────────────────────────────────────
+
+/** JSON candidates in an agent's final text, most specific first: fences, the "findings" object, outer braces, all of it. */
+function jsonCandidates(text: string): string[] {
+  const trimmed = text.trim();
+  const candidates: string[] = [];
+
+  // Strategy 1: markdown code fences (```json ... ``` or ``` ... ```)
+  const fenceRegex = /```(?:json)?\s*([\s\S]*?)```/g;
+  let m: RegExpExecArray | null;
+  while ((m = fenceRegex.exec(trimmed)) !== null) candidates.push(m[1].trim());
+
+  // Strategy 2: outermost { } containing "findings"
+  const idx = trimmed.indexOf('"findings"');
+  if (idx >= 0) {
+    const start = trimmed.lastIndexOf("{", idx);
+    if (start >= 0) {
+      let depth = 0;
+      for (let i = start; i < trimmed.length; i++) {
+        if (trimmed[i] === "{") depth++;
+        else if (trimmed[i] === "}") depth--;
+        if (depth === 0) { candidates.push(trimmed.slice(start, i + 1)); break; }
+      }
+    }
+  }
+
+  // Strategy 3: first { to last }
+  const jsonStart = trimmed.indexOf("{");
+  const jsonEnd = trimmed.lastIndexOf("}");
+  if (jsonStart >= 0 && jsonEnd > jsonStart) candidates.push(trimmed.slice(jsonStart, jsonEnd + 1));
+
+  // Strategy 4: the whole text as-is
+  candidates.push(trimmed);
+  return candidates;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+function describeError(error: { path: string; message: string; schema: TSchema }): string {
+  const options = (error.schema.anyOf as TSchema[] | undefined)?.map((s) => s.const).filter((c) => c !== undefined);
+  const message = options?.length ? `must be one of ${options.map((o) => JSON.stringify(o)).join(", ")}` : error.message.toLowerCase();
+  return `${error.path || "(root)"}: ${message}`;
+}
+
+function toOutput(json: ReviewOutputJson): ReviewAgentOutput {
+  return {
+    findings: json.findings.map((f): ReviewFinding => ({
+      file: f.file,
+      line: f.line,
+      severity: f.severity,
+      category: f.category,
+      title: f.title,
+      description: f.description,
+      suggestion: f.suggestion || undefined,
+    })),
+    summary: json.summary,
+    score: Math.round(json.score),
+  };
+}
+
+export type ReviewValidation = { output: ReviewAgentOutput } | { errors: string[] };
+
+/**
+ * Validate an agent's final text against ReviewOutputSchema. The errors name
+ * the JSON path of every mismatch, for the repair prompt.
+ */
+export function validateReviewOutput(text: string): ReviewValidation {
+  let firstErrors: string[] | undefined;
+  for (const candidate of jsonCandidates(text)) {
+    let parsed: unknown;
+    try { parsed = JSON.parse(candidate); } catch { continue; }
+    const value = Value.Convert(ReviewOutputSchema, parsed);
+    if (Value.Check(ReviewOutputSchema, value)) return { output: toOutput(value) };
+    if (!firstErrors && parsed && typeof parsed === "object") {
+      // One error per path: a missing field also fails its type check
+      const byPath = new Map<string, string>();
+      for (const error of Value.Errors(ReviewOutputSchema, value)) {
+        if (!byPath.has(error.path)) byPath.set(error.path, describeError(error));
+      }
+      firstErrors = [...byPath.values()];
+    }
+  }
+  if (!firstErrors) return { errors: ["(root): no JSON object found in the answer"] };
+  const extra = firstErrors.length - MAX_REPORTED_ERRORS;
+  return { errors: extra > 0 ? [...firstErrors.slice(0, MAX_REPORTED_ERRORS), `… and ${extra} more`] : firstErrors };
+}
+
+// ─── Lenient parsing ──────────────────────────────────────────────────────────
+
+/**
+ * Salvage reviewer JSON that failed validation even after a repair turn:
+ * findings without a file or title are dropped, unknown severities become
+ * suggestions and a missing score becomes 5.
+ */
+export function parseReviewOutput(text: string): ReviewAgentOutput | null {
+  for (const candidate of jsonCandidates(text)) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (!parsed.findings || !Array.isArray(parsed.findings)) continue;
+      const findings: ReviewFinding[] = parsed.findings
+        .filter((f: any) => f.file && f.title)
+        .map((f: any) => ({
+          file: String(f.file),
+          line: Number(f.line) || 0,
+          severity: (["critical", "warning", "suggestion"].includes(f.severity) ? f.severity : "suggestion") as ReviewFinding["severity"],
+          category: String(f.category || "other"),
+          title: String(f.title),
+          description: String(f.description || ""),
+          suggestion: f.suggestion ? String(f.suggestion) : undefined,
+        }));
+      return {
+        findings,
+        summary: String(parsed.summary || ""),
+        score: Math.min(10, Math.max(1, Number(parsed.score) || 5)),
+      };
+    } catch { continue; }
+  }
+  return null;
+}
@@ -0,0 +1,175 @@
+import { loadProjectConfig } from "./config";
+import type { ModelSelection, ReviewAgentResult } from "./types";
+
+// ─── Specialist reviewer personas ─────────────────────────────────────────────
+//
+// Persona mode gives each model one specialist role instead of the generalist
+// prompt. Every persona reports in a single category of its own, and the
+// consensus of a finding counts only the agents that held that persona: two of
+// two security auditors agreeing is unanimous, whatever the other models did.
+
+export type PersonaId = "security" | "performance" | "test-coverage" | "api-compat";
+
+export interface ReviewPersona {
+  id: PersonaId;
+  /** "security auditor" — used in prompts and agent names. */
+  title: string;
+  icon: string;
+  /** Category every finding of this persona is filed under. */
+  category: string;
+  /** Focus bullets of its system prompt. */
+  focus: string[];
+  /** Words that map a project.yml `role` to this persona. */
+  aliases: string[];
+}
+
+export const REVIEW_PERSONAS: ReviewPersona[] = [
+  {
+    id: "security",
+    title: "security auditor",
+    icon: "🔒",
+    category: "security",
+    focus: [
+      "Injection (SQL, command, template, path traversal), XSS, CSRF, SSRF and unsafe deserialization",
+      "Authentication and authorization: missing checks, privilege escalation, IDOR, broken session handling",
+      "Secrets, tokens and personal data: hardcoded credentials, logging or exposing sensitive data",
+      "Cryptography and transport: weak algorithms, predictable randomness, disabled TLS verification",
+      "Input validation at trust boundaries, unsafe defaults, dependency or configuration risks",
+    ],
+    aliases: ["security", "appsec", "auditor"],
+  },
+  {
+    id: "performance",
+    title: "performance reviewer",
+    icon: "⚡",
+    category: "performance",
+    focus: [
+      "Database access: N+1 queries, missing indexes, unbounded queries, queries inside loops",
+      "Algorithmic complexity on hot paths, repeated work that could be cached or batched",
+      "Memory: leaks, unbounded growth, large copies, loading whole files or tables into memory",
+      "Concurrency and I/O: blocking calls on async paths, missing timeouts, serialised work that could run in parallel",
+      "Rendering and network cost on clients: unnecessary re-renders, oversized payloads, chatty requests",
+    ],
+    aliases: ["performance", "perf", "latency", "scalability"],
+  },
+  {
+    id: "test-coverage",
+    title: "test-coverage reviewer",
+    icon: "🧪",
+    category: "test-coverage",
+    focus: [
+      "Changed behaviour without tests: new branches, error paths and edge cases nobody exercises",
+      "Tests that cannot fail: missing assertions, assertions on mocks only, swallowed errors",
+      "Brittle tests: timing, ordering, shared state or network dependencies",
+      "Existing tests the change should have updated, or that it silently weakened or deleted",
+      "Name the concrete test that is missing (input, expected outcome) in the suggestion",
+    ],
+    aliases: ["test", "tests", "testing", "coverage", "qa"],
+  },
+  {
+    id: "api-compat",
+    title: "API-compatibility reviewer",
+    icon: "🔌",
+    category: "api-compat",
+    focus: [
+      "Breaking changes to public APIs: removed or renamed exports, endpoints, fields, flags or CLI options",
+      "Changed signatures, defaults, return shapes, status codes or error types that callers rely on",
+      "Wire and storage formats: serialization, database schema and migrations, event payloads, backwards-incompatible config",
+      "Versioning and deprecation: missing deprecation path, changelog or version bump for a breaking change",
+      "Behaviour changes callers can observe without any signature change (ordering, nullability, units, time zones)",
+    ],
+    aliases: ["api", "compat", "compatibility", "breaking", "contract"],
+  },
+];
+
+export function getPersona(id: string | undefined): ReviewPersona | undefined {
+  return REVIEW_PERSONAS.find((p) => p.id === id);
+}
+
+/** Persona named by a free-form project.yml `role` ("security specialist" → security). */
+export function personaForRole(role: string | undefined): ReviewPersona | undefined {
+  if (!role) return undefined;
+  const words = role.toLowerCase().split(/[^a-z0-9-]+/).filter(Boolean);
+  return REVIEW_PERSONAS.find((p) => words.includes(p.id) || p.aliases.some((a) => words.includes(a)));
+}
+
+// ─── Enabling persona mode ────────────────────────────────────────────────────
+
+/**
+ * Personas enabled by project.yml `review.personas` (true = all, or a list of
+ * ids), or all of them when `forced` by --personas. Empty = generalist mode.
+ */
+export function resolveEnabledPersonas(cwd: string, forced = false): ReviewPersona[] {
+  const configured = loadProjectConfig(cwd)?.review?.personas;
+  if (Array.isArray(configured)) {
+    const listed = REVIEW_PERSONAS.filter((p) => configured.map((c) => String(c).toLowerCase()).includes(p.id));
+    if (listed.length > 0) return listed;
+  }
+  return forced || configured === true ? REVIEW_PERSONAS : [];
+}
+
+// ─── Assignment ───────────────────────────────────────────────────────────────
+
+export interface PersonaAssignment {
+  models: ModelSelection[];
+  /** Enabled personas no model could take (fewer models than personas). */
+  uncovered: ReviewPersona[];
+}
+
+/**
+ * Give every model one of `personas`. A model whose project.yml `role` names
+ * an enabled persona keeps it; the others go, in roster order, to the persona
+ * with the fewest agents so far — so every persona is covered before any gets
+ * a second opinion.
+ */
+export function assignPersonas(models: ModelSelection[], personas: ReviewPersona[]): PersonaAssignment {
+  if (personas.length === 0) return { models, uncovered: [] };
+  const load = new Map<PersonaId, number>(personas.map((p) => [p.id, 0]));
+  const chosen: Array<ReviewPersona | undefined> = models.map((m) => {
+    const persona = personaForRole(m.role);
+    return persona && load.has(persona.id) ? persona : undefined;
+  });
+  for (const persona of chosen) if (persona) load.set(persona.id, load.get(persona.id)! + 1);
+
+  const assigned = models.map((model, i) => {
+    // A role naming the persona is part of the display name already
+    if (chosen[i]) return { ...model, persona: chosen[i]!.id };
+    const persona = personas.reduce((best, p) => (load.get(p.id)! < load.get(best.id)! ? p : best));
+    load.set(persona.id, load.get(persona.id)! + 1);
+    return { ...model, persona: persona.id, displayName: `${model.displayName} (${persona.title})` };
+  });
+  return { models: assigned, uncovered: personas.filter((p) => load.get(p.id) === 0) };
+}
+
+/** Persona assignment for a review command's roster; models are unchanged when persona mode is off. */
+export function planPersonas(cwd: string, models: ModelSelection[], forced = false): PersonaAssignment {
+  return assignPersonas(models, resolveEnabledPersonas(cwd, forced));
+}
+
+/** Markdown list of who reviews as what, used by /review-models. */
+export function formatPersonaAssignment(assignment: PersonaAssignment): string {
+  let out = "";
+  for (const m of assignment.models) {
+    const persona = getPersona(m.persona);
+    if (persona) out += `- ${persona.icon} ${m.provider}/${m.modelId} → ${persona.title}${m.role ? ` (from role "${m.role}")` : ""}\n`;
+  }
+  if (assignment.uncovered.length > 0) {
+    out += `- ⚠️ Not covered (fewer models than personas): ${assignment.uncovered.map((p) => p.title).join(", ")}\n`;
+  }
+  return out ? `_Personas:_\n\n${out}\n` : "";
+}
+
+/** Agents launched with the persona that files findings under `category` — the consensus denominator. */
+export function categoryReviewers(results: ReviewAgentResult[], category: string): number {
+  return results.filter((r) => getPersona(r.persona)?.category === category).length;
+}
+
+/** "🔒 security auditor ×2 · ⚡ performance reviewer ×1" for report headers and notifications. */
+export function formatPersonaRoster(models: Array<Pick<ModelSelection, "persona">>, uncovered: ReviewPersona[] = []): string {
+  const parts = REVIEW_PERSONAS
+    .map((p) => ({ p, count: models.filter((m) => m.persona === p.id).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ p, count }) => `${p.icon} ${p.title} ×${count}`);
+  if (uncovered.length > 0) parts.push(`not covered: ${uncovered.map((p) => p.title).join(", ")}`);
+  return parts.join(" · ");
+}
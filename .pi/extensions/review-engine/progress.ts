@@ -0,0 +1,169 @@
+import type { ExtensionContext, Theme, ThemeColor } from "@mariozechner/pi-coding-agent";
+import { truncateToWidth, visibleWidth, type TUI } from "@mariozechner/pi-tui";
+import type { ModelSelection, ReviewStrategy } from "./types";
+
+// ─── Live per-agent progress ──────────────────────────────────────────────────
+//
+// With a UI, a running review shows one widget row per agent above the editor
+// instead of a toast per agent: its state, elapsed time and finding count,
+// redrawn in place. Each agent has its own abort controller, so the review's
+// stop command can cancel one slow agent (`/parallel-review-stop 2`) while the
+// rest of the run carries on.
+
+export type AgentState =
+  | "queued" | "running" | "retrying" | "repairing" | "timed-out" | "parsed" | "parse-failed" | "failed" | "cancelled";
+
+const STATE_STYLE: Record<AgentState, { icon: string; label: string; color: ThemeColor }> = {
+  queued: { icon: "○", label: "queued", color: "dim" },
+  running: { icon: "◐", label: "running", color: "accent" },
+  retrying: { icon: "↻", label: "retrying (lock)", color: "warning" },
+  repairing: { icon: "✎", label: "repairing JSON", color: "warning" },
+  "timed-out": { icon: "⏱", label: "timed out", color: "error" },
+  parsed: { icon: "✔", label: "parsed", color: "success" },
+  "parse-failed": { icon: "⚠", label: "parse failed", color: "warning" },
+  failed: { icon: "✘", label: "failed", color: "error" },
+  cancelled: { icon: "⊘", label: "cancelled", color: "muted" },
+};
+
+const ACTIVE_STATES = new Set<AgentState>(["running", "retrying", "repairing"]);
+const TICK_MS = 1000;
+
+interface AgentRow {
+  name: string;
+  modelId: string;
+  state: AgentState;
+  startedAt?: number;
+  finishedAt?: number;
+  findings: number;
+  chunksDone: number;
+  chunksTotal: number;
+  note?: string;
+  controller: AbortController;
+}
+
+export interface ReviewProgress {
+  /** True when the widget is on screen — per-agent toasts would only repeat it. */
+  visible: boolean;
+  /** Aborts when this agent alone is cancelled. */
+  agentSignal(index: number): AbortSignal;
+  start(index: number): void;
+  retrying(index: number): void;
+  /** A schema repair turn is running for one of its chunks. */
+  repairing(index: number): void;
+  /** One chunk parsed; running totals for multi-chunk agents. */
+  chunkDone(index: number, findings: number): void;
+  finish(index: number, state: AgentState, note?: string): void;
+  dispose(): void;
+}
+
+/** Live runs by strategy status key, for the stop commands. */
+const activeRuns = new Map<string, { rows: AgentRow[]; redraw: () => void }>();
+
+function formatElapsed(row: AgentRow, now: number): string {
+  if (!row.startedAt) return "";
+  const seconds = Math.floor(((row.finishedAt ?? now) - row.startedAt) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function renderRows(rows: AgentRow[], title: string, hint: string, theme: Theme, width: number): string[] {
+  const done = rows.filter((r) => !ACTIVE_STATES.has(r.state) && r.state !== "queued").length;
+  const nameWidth = Math.min(40, Math.max(...rows.map((r) => visibleWidth(r.name))));
+  const labelWidth = Math.max(...Object.values(STATE_STYLE).map((s) => s.label.length));
+  const now = Date.now();
+
+  const lines = [theme.fg("muted", `${title} — ${done}/${rows.length} done${hint ? ` · ${hint}` : ""}`)];
+  rows.forEach((row, i) => {
+    const style = STATE_STYLE[row.state];
+    const name = truncateToWidth(row.name, nameWidth);
+    const findings = row.state === "queued" ? "" : `${row.findings} finding${row.findings === 1 ? "" : "s"}`;
+    const chunks = row.chunksTotal > 1 ? ` · chunk ${Math.min(row.chunksDone + 1, row.chunksTotal)}/${row.chunksTotal}` : "";
+    const line = `${String(i + 1).padStart(2)} ${theme.fg(style.color, style.icon)} ${name.padEnd(nameWidth + name.length - visibleWidth(name))}  `
+      + `${theme.fg(style.color, style.label.padEnd(labelWidth))}  ${formatElapsed(row, now).padStart(5)}  ${findings}`
+      + theme.fg("dim", `${ACTIVE_STATES.has(row.state) ? chunks : ""}${row.note ? ` · ${row.note}` : ""}`);
+    lines.push(truncateToWidth(line, width));
+  });
+  return lines;
+}
+
+/**
+ * Track `models` for one run of `strategy`. The widget is only shown with a
+ * UI; without one (print mode) the tracker still provides per-agent cancel
+ * signals. `stopCommand` is named in the widget header as the way to cancel
+ * one agent.
+ */
+export function createReviewProgress(
+  ctx: ExtensionContext,
+  strategy: ReviewStrategy,
+  models: ModelSelection[],
+  chunkCount: number,
+  stopCommand?: string,
+): ReviewProgress {
+  const rows: AgentRow[] = models.map((m) => ({
+    name: m.displayName, modelId: m.modelId, state: "queued", findings: 0, chunksDone: 0, chunksTotal: chunkCount,
+    controller: new AbortController(),
+  }));
+  const widgetKey = `${strategy.statusKey}-agents`;
+  let tui: TUI | undefined;
+  let ticker: ReturnType<typeof setInterval> | undefined;
+  const redraw = () => tui?.requestRender();
+
+  if (ctx.hasUI) {
+    const hint = stopCommand ? `/${stopCommand} <n> cancels one agent` : "";
+    ctx.ui.setWidget(widgetKey, (widgetTui, theme) => {
+      tui = widgetTui;
+      return { render: (width: number) => renderRows(rows, strategy.statusLabel, hint, theme, width), invalidate: () => {} };
+    });
+    // Elapsed times move while agents run
+    ticker = setInterval(() => { if (rows.some((r) => ACTIVE_STATES.has(r.state))) redraw(); }, TICK_MS);
+    ticker.unref?.();
+  }
+  activeRuns.set(strategy.statusKey, { rows, redraw });
+
+  const update = (index: number, change: Partial<AgentRow>) => {
+    // A cancelled row keeps its state; only the final timestamp is taken
+    if (rows[index].controller.signal.aborted && change.state !== "cancelled") return;
+    Object.assign(rows[index], change);
+    redraw();
+  };
+
+  return {
+    visible: ctx.hasUI,
+    agentSignal: (index) => rows[index].controller.signal,
+    start: (index) => update(index, { state: "running", startedAt: rows[index].startedAt ?? Date.now() }),
+    retrying: (index) => update(index, { state: "retrying" }),
+    repairing: (index) => update(index, { state: "repairing" }),
+    chunkDone: (index, findings) => update(index, {
+      state: "running", chunksDone: rows[index].chunksDone + 1, findings: rows[index].findings + findings,
+    }),
+    finish: (index, state, note) => update(index, { state, note, finishedAt: Date.now() }),
+    dispose: () => {
+      if (ticker) clearInterval(ticker);
+      if (activeRuns.get(strategy.statusKey)?.rows === rows) activeRuns.delete(strategy.statusKey);
+      if (ctx.hasUI) ctx.ui.setWidget(widgetKey, undefined);
+    },
+  };
+}
+
+/**
+ * Cancel one agent of the run in progress for `statusKey`, by its row number
+ * or a unique part of its name or model id.
+ */
+export function cancelReviewAgent(statusKey: string, ref: string): { name: string } | { error: string } {
+  const run = activeRuns.get(statusKey);
+  if (!run) return { error: "No review in progress." };
+  const query = ref.trim().toLowerCase();
+  const number = Number(query);
+  const matches = Number.isInteger(number) && number >= 1 && number <= run.rows.length
+    ? [run.rows[number - 1]]
+    : run.rows.filter((r) => r.name.toLowerCase().includes(query) || r.modelId.toLowerCase().includes(query));
+  if (matches.length === 0) return { error: `No agent matches "${ref}".` };
+  if (matches.length > 1) return { error: `"${ref}" matches ${matches.length} agents — use the row number.` };
+
+  const row = matches[0];
+  if (!ACTIVE_STATES.has(row.state) && row.state !== "queued") return { error: `${row.name} has already finished.` };
+  row.controller.abort();
+  row.state = "cancelled";
+  row.finishedAt = row.startedAt ? Date.now() : undefined;
+  run.redraw();
+  return { name: row.name };
+}
@@ -0,0 +1,208 @@
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { cleanupTempFile, writeTempFile } from "./agent";
+import { loadProjectConfig } from "./config";
+import { findingReviewers } from "./consolidate";
+import type { ConsolidatedFinding, ReviewTarget } from "./types";
+
+// ─── Publishing a review to GitHub ────────────────────────────────────────────
+//
+// Consolidated findings become ONE pending GitHub review: findings on lines
+// present in the PR diff are inline comments, everything else goes into the
+// review body. The review is left pending (no `event`) so a human submits it.
+//
+// All GitHub access goes through `gh` resolved from PATH, so the flow can be
+// exercised against a fake `gh` placed first on PATH — see
+// scripts/fake-gh/check-publish.ts.
+
+const SEVERITY_ICON: Record<ConsolidatedFinding["severity"], string> = {
+  critical: "🔴",
+  warning: "🟡",
+  suggestion: "🟢",
+};
+
+// ─── Diff positions ───────────────────────────────────────────────────────────
+
+/**
+ * For each file in a unified diff, map new-side line numbers to GitHub's diff
+ * "position": the 1-based line index counted from the line after the file's
+ * first `@@` header (later hunk headers count as lines too). Only added and
+ * context lines can be commented on.
+ */
+export function mapDiffPositions(diff: string): Map<string, Map<number, number>> {
+  const files = new Map<string, Map<number, number>>();
+  let positions: Map<number, number> | null = null;
+  let inHunk = false;
+  let position = 0;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      const match = line.match(/^diff --git a\/.+? b\/(.+)$/);
+      positions = new Map();
+      if (match) files.set(match[1], positions);
+      inHunk = false;
+      position = 0;
+      continue;
+    }
+    if (!positions) continue;
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      // The first hunk header is position 0; later headers take a position.
+      if (inHunk) position++;
+      inHunk = true;
+      newLine = parseInt(hunk[1], 10);
+      continue;
+    }
+    if (!inHunk || line === "") continue; // file header lines (index, ---, +++), trailing newline
+
+    position++;
+    if (line.startsWith("+") || line.startsWith(" ")) {
+      positions.set(newLine, position);
+      newLine++;
+    }
+    // "-" lines and "\ No newline at end of file" only advance the position
+  }
+  return files;
+}
+
+// ─── Review draft ─────────────────────────────────────────────────────────────
+
+export interface PrReviewComment {
+  path: string;
+  position: number;
+  body: string;
+}
+
+export interface PrReviewDraft {
+  body: string;
+  comments: PrReviewComment[];
+  /** Findings whose file:line isn't part of the diff — listed in `body`. */
+  outOfDiff: ConsolidatedFinding[];
+}
+
+function consensusTag(f: ConsolidatedFinding, totalAgents: number): string {
+  return `**[${f.agents.length}/${findingReviewers(f, totalAgents)} agents]**`;
+}
+
+export function formatReviewComment(f: ConsolidatedFinding, totalAgents: number): string {
+  let body = `${consensusTag(f, totalAgents)} ${SEVERITY_ICON[f.severity]} **${f.title}** _(${f.severity} · ${f.category})_\n\n${f.description}\n`;
+  if (f.suggestion) body += `\n\`\`\`suggestion\n${f.suggestion}\n\`\`\`\n`;
+  return body;
+}
+
+export function buildPrReview(findings: ConsolidatedFinding[], diff: string, totalAgents: number): PrReviewDraft {
+  const positions = mapDiffPositions(diff);
+  const comments: PrReviewComment[] = [];
+  const outOfDiff: ConsolidatedFinding[] = [];
+
+  for (const f of findings) {
+    const position = positions.get(f.file)?.get(f.line);
+    if (position === undefined) outOfDiff.push(f);
+    else comments.push({ path: f.file, position, body: formatReviewComment(f, totalAgents) });
+  }
+
+  let body = `## Multi-model review — ${findings.length} finding(s)\n\n`;
+  body += `${comments.length} inline comment(s) · ${outOfDiff.length} outside the diff · consensus out of ${totalAgents} agents\n`;
+  if (outOfDiff.length > 0) {
+    body += `\n### Findings outside the diff\n\n`;
+    for (const f of outOfDiff) {
+      body += `- ${consensusTag(f, totalAgents)} ${SEVERITY_ICON[f.severity]} \`${f.file}:${f.line}\` — **${f.title}**\n  ${f.description}\n`;
+      if (f.suggestion) body += `  > 💡 ${f.suggestion}\n`;
+    }
+  }
+  return { body, comments, outOfDiff };
+}
+
+// ─── gh api ───────────────────────────────────────────────────────────────────
+
+/**
+ * Create a pending review on `repoSlug#prNumber`. The payload is passed via
+ * `--input` so a fake `gh` can capture it verbatim.
+ */
+export async function createPendingReview(
+  pi: Pick<ExtensionAPI, "exec">,
+  repoSlug: string,
+  prNumber: number,
+  draft: PrReviewDraft,
+  commitId?: string,
+): Promise<{ id: number; url: string } | { error: string }> {
+  const payload = {
+    ...(commitId ? { commit_id: commitId } : {}),
+    body: draft.body,
+    comments: draft.comments,
+  };
+  const temp = writeTempFile("pi-review-publish-", "review.json", JSON.stringify(payload));
+  try {
+    const { stdout, stderr, code } = await pi.exec("gh", [
+      "api", "--method", "POST", `repos/${repoSlug}/pulls/${prNumber}/reviews`, "--input", temp.filePath,
+    ]);
+    if (code !== 0) return { error: `gh api failed: ${stderr.trim() || `exit code ${code}`}` };
+    try {
+      const created = JSON.parse(stdout);
+      return { id: created.id, url: created.html_url || `https://github.com/${repoSlug}/pull/${prNumber}` };
+    } catch {
+      return { error: "gh api returned an unexpected response." };
+    }
+  } finally {
+    cleanupTempFile(temp.dir, temp.filePath);
+  }
+}
+
+/**
+ * Opt-in publish step after a review of a PR target. Only offered when
+ * project.yml sets `agent.services.comment_on_prs: true`, and always confirmed.
+ * Positions are computed against the PR's own diff (the reviewed diff may be
+ * an incremental one) and anchored to the PR head that diff belongs to; when
+ * the PR got new commits after the review, that is confirmed first.
+ */
+export async function offerPublishToPr(
+  pi: ExtensionAPI,
+  ctx: ExtensionContext,
+  target: ReviewTarget,
+  findings: ConsolidatedFinding[],
+  totalAgents: number,
+): Promise<void> {
+  if (!ctx.hasUI || target.prNumber === undefined || !target.repoSlug || findings.length === 0) return;
+  if (!loadProjectConfig(ctx.cwd)?.agent?.services?.comment_on_prs) return;
+
+  const prRef = `${target.repoSlug}#${target.prNumber}`;
+  const ok = await ctx.ui.confirm(
+    "Publish to GitHub?",
+    `Create a pending review on ${prRef} with ${findings.length} finding(s)? It stays pending until you submit it on GitHub.`,
+  );
+  if (!ok) return;
+
+  // `gh pr diff` is the PR as it is now; the review must be anchored to that head, not the reviewed one
+  const head = await pi.exec("gh", ["pr", "view", String(target.prNumber), "--repo", target.repoSlug, "--json", "headRefOid", "--jq", ".headRefOid"]);
+  const headSha = head.code === 0 ? head.stdout.trim() : "";
+  if (!headSha) {
+    ctx.ui.notify(`Failed to read the head of ${prRef}: ${head.stderr.trim() || `exit code ${head.code}`}`, "error");
+    return;
+  }
+  if (target.headSha && headSha !== target.headSha) {
+    const publishAnyway = await ctx.ui.confirm(
+      "PR changed since the review",
+      `${prRef} is now at ${headSha.slice(0, 7)}, but the review was of ${target.headSha.slice(0, 7)}. `
+        + "Findings will be placed on the current diff and some may land on moved lines or go to the summary. Publish anyway?",
+    );
+    if (!publishAnyway) return;
+  }
+
+  const { stdout: prDiff, code, stderr } = await pi.exec("gh", ["pr", "diff", String(target.prNumber), "--repo", target.repoSlug]);
+  if (code !== 0) {
+    ctx.ui.notify(`Failed to fetch PR diff: ${stderr.trim() || `exit code ${code}`}`, "error");
+    return;
+  }
+
+  const draft = buildPrReview(findings, prDiff, totalAgents);
+  const result = await createPendingReview(pi, target.repoSlug, target.prNumber, draft, headSha);
+  if ("error" in result) {
+    ctx.ui.notify(result.error, "error");
+    return;
+  }
+  ctx.ui.notify(
+    `✅ Pending review created on ${prRef}: ${draft.comments.length} inline, ${draft.outOfDiff.length} in summary.\n${result.url}`,
+    "info",
+  );
+}
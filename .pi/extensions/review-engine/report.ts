@@ -0,0 +1,320 @@
+import { agentWeight, findingReviewers, SEVERITY_WEIGHT } from "./consolidate";
+import { packageForFile } from "./packages";
+import { formatPersonaRoster } from "./personas";
+import type {
+  BudgetOutcome, ConsolidatedFinding, FileCoverage, PackageSlice, ReportStyle, ReviewAgentResult, SuppressedFinding,
+  VerificationSummary,
+} from "./types";
+import { describeBudget, formatCost, formatTokens, runUsage } from "./usage";
+
+// ─── Report formatting ────────────────────────────────────────────────────────
+
+export interface ReportMeta {
+  label: string;
+  branch: string;
+  baseBranch: string;
+  filesChanged: number;
+  commitCount: number;
+  /** Agents launched (including failed ones) — the denominator of consensus tags. */
+  totalAgents: number;
+  /** Incremental re-reviews: previous findings fixed since the last run. */
+  resolvedFindings?: ConsolidatedFinding[];
+  /** Findings hidden by earlier /review-triage decisions on this branch. */
+  suppressedFindings?: SuppressedFinding[];
+  /** Verification pass over low-consensus findings, and the findings it refuted. */
+  verification?: VerificationSummary;
+  refutedFindings?: ConsolidatedFinding[];
+  /** project.yml review.budget: models dropped before the run, spend cap reached. */
+  budget?: BudgetOutcome;
+  /** Per-file coverage and how many chunks the diff was split into. */
+  coverage?: FileCoverage[];
+  chunkCount?: number;
+  /** Monorepo reviews: findings are grouped under these packages. */
+  packages?: PackageSlice[];
+}
+
+function formatNumber(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(1);
+}
+
+/** "2 critical / 1 suggestion" when agents disagree on severity, else "". */
+export function formatSeveritySpread(f: ConsolidatedFinding): string {
+  const spread = f.severitySpread;
+  if (!spread || Object.keys(spread).length < 2) return "";
+  return (["critical", "warning", "suggestion"] as const)
+    .filter((s) => spread[s])
+    .map((s) => `${spread[s]} ${s}`)
+    .join(" / ");
+}
+
+const VERDICT_LABEL: Record<NonNullable<ConsolidatedFinding["verification"]>["verdict"], string> = {
+  confirmed: "✔ verified",
+  refuted: "✘ refuted",
+  uncertain: "❔ unverified",
+};
+
+/** "  > 🔎 verifier: justification" under a verified finding, else "". */
+function formatVerification(f: ConsolidatedFinding): string {
+  const v = f.verification;
+  return v?.justification ? `  > 🔎 ${v.verifier}: ${v.justification}\n` : "";
+}
+
+export function formatFinding(f: ConsolidatedFinding, totalAgents: number, style: ReportStyle): string {
+  const spread = formatSeveritySpread(f);
+  const reviewers = findingReviewers(f, totalAgents);
+  const detail = ` · score ${formatNumber(f.consensusScore)}` + (spread ? ` · ${spread}` : "") + (f.status ? ` · ${f.status}` : "")
+    + (f.verification ? ` · ${VERDICT_LABEL[f.verification.verdict]}` : "");
+  if (style === "classic") {
+    let text = `**[Consensus: ${f.agents.length}/${reviewers}${detail}]** \`${f.file}:${f.line}\` — **${f.title}**\n`;
+    text += `  ${f.description}\n`;
+    text += formatVerification(f);
+    if (f.suggestion) text += `  \`\`\`suggestion\n  ${f.suggestion}\n  \`\`\`\n`;
+    return text + "\n";
+  }
+  // Persona mode: consensus among the reviewers of the finding's category
+  const who = f.reviewers !== undefined ? `${f.category} reviewers` : "agents";
+  const tag = style === "lite" ? `${f.agents.length}/${reviewers}` : `${f.agents.length}/${reviewers} ${who}`;
+  let text = `**[${tag}${detail}]** \`${f.file}:${f.line}\` — **${f.title}**\n`;
+  text += `  ${f.description}\n`;
+  text += formatVerification(f);
+  if (f.suggestion) text += `  > 💡 ${f.suggestion}\n`;
+  return text + "\n";
+}
+
+const SECTION_HEADINGS: Record<ReportStyle, Record<ConsolidatedFinding["severity"], string>> = {
+  classic: { critical: "Critical Issues (must fix)", warning: "Warnings (should fix)", suggestion: "Suggestions (nice to have)" },
+  parallel: { critical: "🔴 Critical Issues", warning: "🟡 Warnings", suggestion: "🟢 Suggestions" },
+  lite: { critical: "🔴 Critical", warning: "🟡 Warnings", suggestion: "🟢 Suggestions" },
+};
+
+function formatSeveritySections(findings: ConsolidatedFinding[], totalAgents: number, style: ReportStyle, level: string): string {
+  let text = "";
+  for (const severity of ["critical", "warning", "suggestion"] as const) {
+    const group = findings.filter((f) => f.severity === severity);
+    if (group.length === 0) continue;
+    const heading = SECTION_HEADINGS[style][severity];
+    text += style === "lite" ? `${level} ${heading} — ${group.length}\n\n` : `${level} ${heading} — ${group.length} found\n\n`;
+    for (const f of group) text += formatFinding(f, totalAgents, style);
+  }
+  return text;
+}
+
+/** Monorepo reviews: one section per changed package, severities nested inside. */
+function formatPackageSections(findings: ConsolidatedFinding[], packages: PackageSlice[], totalAgents: number, style: ReportStyle): string {
+  let text = "";
+  const clean: string[] = [];
+  for (const pkg of packages) {
+    const own = findings.filter((f) => packageForFile(f.file, packages) === pkg);
+    if (own.length === 0) {
+      clean.push(pkg.name);
+      continue;
+    }
+    const where = pkg.dir ? ` — \`${pkg.dir}/\`` : "";
+    text += `### 📦 ${pkg.name}${where} · ${pkg.files.length} file(s) · ${own.length} finding(s)\n\n`;
+    text += formatSeveritySections(own, totalAgents, style, "####");
+  }
+  if (clean.length > 0 && findings.length > 0) text += `_No findings in: ${clean.join(", ")}._\n\n`;
+  return text;
+}
+
+function formatPackageCount(meta: ReportMeta): string {
+  return meta.packages?.length ? ` | **Packages:** ${meta.packages.length}` : "";
+}
+
+/** Persona mode: which specialist each agent reviewed as. */
+function formatPersonaLine(results: ReviewAgentResult[]): string {
+  return results.some((r) => r.persona) ? `**Personas:** ${formatPersonaRoster(results)}\n` : "";
+}
+
+/** Schema repair turns: answers that failed validation and got a second chance. */
+function formatRepairNote(results: ReviewAgentResult[]): string {
+  const repaired = results.filter((r) => r.repairs);
+  if (repaired.length === 0) return "";
+  const attempted = repaired.reduce((sum, r) => sum + r.repairs!.attempted, 0);
+  const recovered = repaired.reduce((sum, r) => sum + r.repairs!.recovered, 0);
+  const agents = repaired.map((r) => {
+    const { attempted: n, recovered: ok } = r.repairs!;
+    return `${r.displayName}${n > 1 ? ` ×${n}` : ""}${ok < n ? ` (${n - ok} failed)` : ""}`;
+  });
+  return `> 🔧 JSON repairs: ${attempted} repair turn(s), ${recovered} recovered — ${agents.join(", ")}\n\n`;
+}
+
+function formatHeader(results: ReviewAgentResult[], meta: ReportMeta, style: ReportStyle): string {
+  const successful = results.filter((r) => r.output);
+  const failed = results.filter((r) => !r.output);
+  const modelCount = new Set(successful.map((r) => r.model)).size;
+  const agentNames = successful.map((r) => r.displayName).join(", ");
+  let header: string;
+
+  if (style === "classic") {
+    header = `## Code Review Results (${successful.length} agents, ${modelCount} models)\n\n`;
+    header += `**Agents used:** ${agentNames}\n${formatPersonaLine(results)}`;
+    header += `**Branch:** ${meta.branch} → ${meta.baseBranch}\n`;
+    header += `**Files changed:** ${meta.filesChanged} | **Commits:** ${meta.commitCount}${formatPackageCount(meta)}\n\n`;
+    if (failed.length > 0) {
+      header += `> **Note:** ${failed.length} agent(s) failed: ${failed.map((r) => `${r.displayName} (${r.error || "unknown error"})`).join(", ")}\n\n`;
+    }
+  } else if (style === "lite") {
+    header = `## Parallel Review (Lite) — ${meta.label}\n\n`;
+    header += `**Agents:** ${agentNames}\n${formatPersonaLine(results)}`;
+    header += `**Files changed:** ${meta.filesChanged} | **Commits:** ${meta.commitCount}${formatPackageCount(meta)}\n\n`;
+    if (failed.length > 0) header += `> ⚠️ ${failed.length} agent(s) failed: ${failed.map((r) => r.displayName).join(", ")}\n\n`;
+  } else {
+    header = `## Parallel Review — ${meta.label}\n\n`;
+    header += `**Agents:** ${agentNames}\n${formatPersonaLine(results)}`;
+    header += `**Models:** ${modelCount} | **Files changed:** ${meta.filesChanged} | **Commits:** ${meta.commitCount}${formatPackageCount(meta)}\n\n`;
+    if (failed.length > 0) {
+      header += `> ⚠️ ${failed.length} agent(s) failed: ${failed.map((r) => `${r.displayName} (${r.error || "unknown"})`).join(", ")}\n\n`;
+    }
+  }
+  return header + formatRepairNote(results);
+}
+
+function formatScores(results: ReviewAgentResult[], style: ReportStyle): string {
+  const successful = results.filter((r) => r.output);
+  if (successful.length === 0) return "";
+  // Trust weights only get a column when project.yml sets any
+  const weighted = successful.some((r) => r.weight !== undefined);
+  const weightHead = weighted ? " Weight |" : "";
+  const weightRule = weighted ? "--------|" : "";
+  const weightCell = (r: ReviewAgentResult) => (weighted ? ` ${formatNumber(agentWeight(r))} |` : "");
+  let text: string;
+  if (style === "classic") {
+    text = `### Per-Agent Scores\n\n| Agent | Model | Score | Findings |${weightHead}\n|-------|-------|-------|----------|${weightRule}\n`;
+    for (const r of successful) {
+      text += `| ${r.displayName} | ${r.model} | ${r.output?.score ?? "-"}/10 | ${r.output?.findings.length ?? 0} |${weightCell(r)}\n`;
+    }
+  } else {
+    text = `### ${style === "lite" ? "Scores" : "Per-Agent Scores"}\n\n| Agent | Score | Findings |${weightHead}\n|-------|-------|----------|${weightRule}\n`;
+    for (const r of successful) {
+      text += `| ${r.displayName} | ${r.output?.score ?? "-"}/10 | ${r.output?.findings.length ?? 0} |${weightCell(r)}\n`;
+    }
+  }
+  if (style !== "lite") {
+    text += `\n_Finding score = Σ agent weight × severity it gave (critical ${SEVERITY_WEIGHT.critical} · warning ${SEVERITY_WEIGHT.warning} · suggestion ${SEVERITY_WEIGHT.suggestion})._\n`;
+  }
+  return text + "\n";
+}
+
+/** Verification pass summary plus the refuted findings, which are out of the severity sections. */
+function formatVerificationSection(findings: ConsolidatedFinding[], meta: ReportMeta): string {
+  const v = meta.verification;
+  if (!v) return "";
+  let text = `### 🔎 Verification — ${v.checked} low-consensus finding(s) checked by ${v.verifier}\n\n`;
+  if (v.error) return text + `⚠️ Verification failed (${v.error}); findings are shown unverified.\n\n`;
+  const refuted = meta.refutedFindings ?? [];
+  const count = (verdict: string) => findings.filter((f) => f.verification?.verdict === verdict).length;
+  const noVerdict = v.checked - count("confirmed") - count("uncertain") - refuted.length;
+  text += `${count("confirmed")} confirmed · ${count("uncertain")} uncertain · ${refuted.length} refuted`;
+  if (noVerdict > 0) text += ` · ${noVerdict} without a verdict`;
+  text += v.skipped > 0 ? ` · ${v.skipped} more not checked (\`review.verify.max_findings\`)\n\n` : "\n\n";
+  for (const f of refuted) {
+    text += `- ~~\`${f.file}:${f.line}\` — ${f.title}~~ _(${f.agents.length}/${findingReviewers(f, meta.totalAgents)})_\n`;
+    if (f.verification?.justification) text += `  ${f.verification.justification}\n`;
+  }
+  return text + (refuted.length > 0 ? "\n" : "");
+}
+
+const COVERAGE_LABEL: Record<FileCoverage["status"], string> = {
+  reviewed: "✅ reviewed",
+  partial: "⚠️ partial",
+  skipped: "⛔ skipped",
+  ignored: "➖ ignored",
+};
+
+/** Omitted for small, fully reviewed diffs so the usual report is unchanged. */
+function formatCoverage(coverage: FileCoverage[] | undefined, chunkCount: number, successfulAgents: number): string {
+  if (!coverage?.length) return "";
+  const incomplete = coverage.filter((c) => c.status === "partial" || c.status === "skipped");
+  const ignored = coverage.filter((c) => c.status === "ignored");
+  if (incomplete.length === 0 && ignored.length === 0 && chunkCount <= 1) return "";
+
+  let text = `### Coverage\n\n`;
+  const reviewable = coverage.length - ignored.length;
+  text += incomplete.length === 0
+    ? `All ${reviewable} files reviewed across ${chunkCount} chunk(s).`
+    : `⚠️ ${incomplete.length} of ${reviewable} files not fully reviewed (${chunkCount} chunk(s)).`;
+  text += ignored.length > 0 ? ` ${ignored.length} file(s) ignored by \`review.ignore_paths\`.\n\n` : "\n\n";
+  text += `| File | Coverage | Agents |\n|------|----------|--------|\n`;
+  for (const c of coverage) text += `| \`${c.file}\` | ${COVERAGE_LABEL[c.status]} | ${c.agents}/${successfulAgents} |\n`;
+  return text + "\n";
+}
+
+/** Tokens and estimated cost per agent and for the run; omitted when pi reported no usage. */
+function formatUsage(results: ReviewAgentResult[], meta: ReportMeta): string {
+  const total = runUsage(results, meta.verification);
+  if (total.totalTokens === 0 && !meta.budget) return "";
+  const row = (name: string, model: string, u: ReviewAgentResult["usage"]) =>
+    u ? `| ${name} | ${model} | ${formatTokens(u.input)} | ${formatTokens(u.output)} | ${formatTokens(u.cacheRead + u.cacheWrite)} | ${formatCost(u.cost.total)} |\n` : "";
+
+  let text = `### 💰 Usage — ${formatTokens(total.totalTokens)} tokens · ${formatCost(total.cost.total)}\n\n`;
+  text += `| Agent | Model | Input | Output | Cache | Cost |\n|-------|-------|-------|--------|-------|------|\n`;
+  for (const r of results) text += row(r.displayName, r.model, r.usage);
+  if (meta.verification) text += row(`🔎 ${meta.verification.verifier}`, "verifier", meta.verification.usage);
+  text += `| **Total** | | ${formatTokens(total.input)} | ${formatTokens(total.output)} | ${formatTokens(total.cacheRead + total.cacheWrite)} | **${formatCost(total.cost.total)}** |\n`;
+
+  const budget = meta.budget;
+  if (budget) {
+    text += `\n_Budget: ${describeBudget(budget)} per run (\`review.budget\`)._`;
+    if (budget.dropped.length > 0) {
+      text += ` Dropped before the run: ${budget.dropped.map((d) => `${d.name} (~${formatCost(d.estimatedCost)})`).join(", ")}.`;
+    }
+    if (budget.exhausted) text += ` ⚠️ Reached mid-run — agents still working were stopped.`;
+    text += "\n";
+  }
+  return text + "\n";
+}
+
+function formatSummary(results: ReviewAgentResult[], findingCount: number, style: ReportStyle): string {
+  if (style === "lite") return `\n💡 Use \`/parallel-review\` for full coverage (all configured models)\n`;
+  const successful = results.filter((r) => r.output);
+  if (successful.length === 0) return "";
+  const summaries = successful.filter((r) => r.output?.summary).map((r) => r.output!.summary);
+  if (summaries.length > 0) return `### Summary\n\n${summaries.join(" ")}\n`;
+  if (style === "classic") {
+    return `### Summary\n\nReview completed with ${findingCount} total finding(s) across ${successful.length} agents.\n`;
+  }
+  return "";
+}
+
+export function formatReport(
+  results: ReviewAgentResult[],
+  findings: ConsolidatedFinding[],
+  meta: ReportMeta,
+  style: ReportStyle,
+): string {
+  let report = formatHeader(results, meta, style);
+
+  if (findings.length === 0) {
+    report += style === "classic"
+      ? "**No issues found.** All agents report clean code.\n\n"
+      : style === "lite"
+        ? "✅ **No issues found.**\n\n"
+        : "✅ **No issues found.** All agents report clean code.\n\n";
+  }
+
+  if (meta.packages?.length) report += formatPackageSections(findings, meta.packages, meta.totalAgents, style);
+  else report += formatSeveritySections(findings, meta.totalAgents, style, "###");
+
+  if (meta.resolvedFindings?.length) {
+    report += `### ✅ Resolved since last review — ${meta.resolvedFindings.length}\n\n`;
+    for (const f of meta.resolvedFindings) report += `- ~~\`${f.file}:${f.line}\` — ${f.title}~~\n`;
+    report += "\n";
+  }
+
+  if (meta.suppressedFindings?.length) {
+    report += `### 🔕 Suppressed by triage — ${meta.suppressedFindings.length}\n\n`;
+    for (const s of meta.suppressedFindings) {
+      const reason = s.reason ? `: ${s.reason}` : "";
+      report += `- \`${s.finding.file}:${s.finding.line}\` — ${s.finding.title} _(${s.decision}${reason})_\n`;
+    }
+    report += "\n";
+  }
+
+  report += formatVerificationSection(findings, meta);
+  report += formatCoverage(meta.coverage, meta.chunkCount ?? 1, results.filter((r) => r.output).length);
+  report += formatScores(results, style);
+  report += formatUsage(results, meta);
+  report += formatSummary(results, findings.length, style);
+  return report;
+}
@@ -0,0 +1,44 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { loadProjectConfig } from "./config";
+
+// ─── Repo discovery ───────────────────────────────────────────────────────────
+
+// No hardcoded repos — discovered dynamically from project.yml or by scanning directories.
+
+export function getReposPath(cwd: string): string {
+  const configPath = path.join(cwd, ".pi", "local.json");
+  if (fs.existsSync(configPath)) {
+    try {
+      const c = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+      if (c.reposPath) return c.reposPath;
+    } catch {}
+  }
+  return cwd;
+}
+
+/** Local clone of `repo` under the repos path, or the workspace itself when it isn't cloned. */
+export function getRepoCwd(cwd: string, repo: string): string {
+  const localDir = path.join(getReposPath(cwd), repo);
+  return fs.existsSync(path.join(localDir, ".git")) ? localDir : cwd;
+}
+
+export function listAvailableRepos(cwd: string): string[] {
+  const reposPath = getReposPath(cwd);
+
+  // Try project.yml first for configured repos
+  const configured = loadProjectConfig(cwd)?.repos;
+  const reposFromYml = (Array.isArray(configured) ? configured : []).map((r) => r?.name).filter(Boolean);
+  const existing = reposFromYml.filter((name) => fs.existsSync(path.join(reposPath, name, ".git")));
+  if (existing.length > 0) return existing;
+
+  // Fallback: scan reposPath for directories with .git
+  try {
+    return fs.readdirSync(reposPath, { withFileTypes: true })
+      .filter((dirent) => dirent.isDirectory() && !dirent.name.startsWith(".") && fs.existsSync(path.join(reposPath, dirent.name, ".git")))
+      .map((dirent) => dirent.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
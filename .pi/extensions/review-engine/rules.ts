@@ -0,0 +1,134 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { diffSectionPath } from "./chunking";
+import { loadProjectConfig, type BannedPattern, type ReviewRulesConfig } from "./config";
+import type { ReviewAgentResult, ReviewTarget, Severity } from "./types";
+
+// ─── Review rules (project.yml `review:` + `repos[].review`) ──────────────────
+
+/** Memory files are capped so one big repo file can't crowd out the diff. */
+const MAX_MEMORY_CHARS = 12_000;
+
+export interface ReviewRules {
+  focus: string[];
+  bannedPatterns: BannedPattern[];
+  severityOverrides: Record<string, Severity>;
+  ignorePaths: string[];
+  memoryFile: string | null;
+  /** Split the review per workspace package (see packages.ts). */
+  byPackage: boolean;
+}
+
+const SEVERITIES = new Set<string>(["critical", "warning", "suggestion"]);
+
+function asList<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Global `review:` rules with the repo's own `review:` layered on top:
+ * lists are concatenated, severity overrides, memory_file and by_package are
+ * replaced key by key. by_package defaults to `repo_structure: monorepo`.
+ */
+export function resolveReviewRules(cwd: string, repo: string): ReviewRules {
+  const config = loadProjectConfig(cwd);
+  const global: ReviewRulesConfig = config?.review || {};
+  const repoRules: ReviewRulesConfig = asList(config?.repos).find((r) => r?.name === repo)?.review || {};
+
+  const severityOverrides: Record<string, Severity> = {};
+  for (const [category, severity] of Object.entries({ ...global.severity_overrides, ...repoRules.severity_overrides })) {
+    if (SEVERITIES.has(String(severity))) severityOverrides[category.toLowerCase()] = severity as Severity;
+  }
+
+  return {
+    focus: [...asList(global.focus), ...asList(repoRules.focus)].map(String),
+    bannedPatterns: [...asList(global.banned_patterns), ...asList(repoRules.banned_patterns)]
+      .map((p) => (typeof p === "string" ? { pattern: p } : p))
+      .filter((p) => p?.pattern),
+    severityOverrides,
+    ignorePaths: [...asList(global.ignore_paths), ...asList(repoRules.ignore_paths)].map(String),
+    memoryFile: repoRules.memory_file || global.memory_file || null,
+    byPackage: repoRules.by_package ?? global.by_package ?? config?.repo_structure === "monorepo",
+  };
+}
+
+// ─── Ignore paths ─────────────────────────────────────────────────────────────
+
+/** Minimal glob → RegExp: `**` spans directories, `*` and `?` don't. Patterns without a slash match basenames. */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      re += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (c === "*") re += "[^/]*";
+    else if (c === "?") re += "[^/]";
+    else re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(glob.includes("/") ? `^${re}$` : `(?:^|/)${re}$`);
+}
+
+export function isIgnoredPath(file: string, ignorePaths: string[]): boolean {
+  return ignorePaths.some((glob) => globToRegExp(glob.replace(/^\.\//, "")).test(file));
+}
+
+/** Drop ignored files from the target's diff and file list. */
+export function applyIgnorePaths(target: ReviewTarget, ignorePaths: string[]): { target: ReviewTarget; ignored: string[] } {
+  if (ignorePaths.length === 0) return { target, ignored: [] };
+  const ignored = target.changedFiles.filter((f) => isIgnoredPath(f, ignorePaths));
+  if (ignored.length === 0) return { target, ignored };
+
+  const sections = target.diff.split(/^(?=diff --git )/m);
+  const diff = sections.filter((section) => {
+    const file = diffSectionPath(section);
+    return !file || !isIgnoredPath(file, ignorePaths);
+  }).join("");
+
+  return {
+    target: { ...target, diff, changedFiles: target.changedFiles.filter((f) => !ignored.includes(f)) },
+    ignored,
+  };
+}
+
+// ─── Prompt and severity ──────────────────────────────────────────────────────
+
+/** Project-specific section appended to the reviewer system prompt ("" when no rules). */
+export function formatRulesPrompt(cwd: string, rules: ReviewRules): string {
+  const sections: string[] = [];
+
+  if (rules.focus.length > 0) {
+    sections.push(`Additional focus areas for this project:\n${rules.focus.map((f) => `- ${f}`).join("\n")}`);
+  }
+  if (rules.bannedPatterns.length > 0) {
+    const lines = rules.bannedPatterns.map((p) =>
+      `- \`${p.pattern}\`${p.reason ? ` — ${p.reason}` : ""}${p.severity ? ` (report as ${p.severity})` : ""}`,
+    );
+    sections.push(`Banned patterns — always report any occurrence in added code:\n${lines.join("\n")}`);
+  }
+  const overrides = Object.entries(rules.severityOverrides);
+  if (overrides.length > 0) {
+    sections.push(`Severity rules — findings in these categories MUST use this severity:\n${overrides.map(([c, s]) => `- ${c} → ${s}`).join("\n")}`);
+  }
+  if (rules.memoryFile) {
+    const memoryPath = path.join(cwd, rules.memoryFile);
+    if (fs.existsSync(memoryPath)) {
+      let content = fs.readFileSync(memoryPath, "utf-8");
+      if (content.length > MAX_MEMORY_CHARS) content = content.slice(0, MAX_MEMORY_CHARS) + "\n[... truncated ...]";
+      sections.push(`Repository context (from ${rules.memoryFile}) — conventions and known patterns:\n\n${content}`);
+    }
+  }
+
+  return sections.length > 0 ? `\n\n## Project review rules\n\n${sections.join("\n\n")}` : "";
+}
+
+/** Enforce severity_overrides on parsed agent output, whatever the model said. */
+export function applySeverityOverrides(results: ReviewAgentResult[], overrides: Record<string, Severity>): void {
+  if (Object.keys(overrides).length === 0) return;
+  for (const r of results) {
+    for (const f of r.output?.findings ?? []) {
+      const forced = overrides[String(f.category).toLowerCase()];
+      if (forced) f.severity = forced;
+    }
+  }
+}
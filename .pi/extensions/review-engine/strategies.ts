@@ -0,0 +1,46 @@
+import type { ReviewStrategy } from "./types";
+
+// ─── Built-in strategies ──────────────────────────────────────────────────────
+
+/** /review-me — agentic review with read-only repo tools, 4 agents at a time. */
+export const REVIEW_ME_STRATEGY: ReviewStrategy = {
+  name: "review-me",
+  statusKey: "review",
+  statusLabel: "Review",
+  mode: "tools",
+  maxClaudeModels: 3,
+  concurrency: 4,
+  staggerMs: 1500, // avoid lock file contention between pi processes
+  notifyPerAgent: false,
+  reportStyle: "classic",
+};
+
+/** /parallel-review — every available model at once, diff inline, single-shot. */
+export const PARALLEL_REVIEW_STRATEGY: ReviewStrategy = {
+  name: "parallel-review",
+  statusKey: "parallel-review",
+  statusLabel: "Parallel review",
+  mode: "inline",
+  maxClaudeModels: 3,
+  staggerMs: 300,
+  agentTimeoutMs: 120_000,
+  chunkTokenBudget: 10_000, // ≈ 40k chars of diff per prompt
+  maxChunks: 8,
+  chunkConcurrency: 3,
+  notifyPerAgent: true,
+  reportStyle: "parallel",
+};
+
+/** /parallel-review-lite — same as /parallel-review, capped at 3 models, chunks in sequence. */
+export const PARALLEL_REVIEW_LITE_STRATEGY: ReviewStrategy = {
+  ...PARALLEL_REVIEW_STRATEGY,
+  name: "parallel-review-lite",
+  statusKey: "parallel-review-lite",
+  statusLabel: "Lite review",
+  maxModels: 3,
+  maxClaudeModels: 2,
+  liteRoster: true,
+  maxChunks: 4,
+  chunkConcurrency: 1,
+  reportStyle: "lite",
+};
@@ -0,0 +1,618 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { loadProjectConfig } from "./config";
+import { getRepoCwd, getReposPath, listAvailableRepos } from "./repos";
+import type { PrInfo, PrReference, ReviewTarget } from "./types";
+
+// ─── PR reference parsing ─────────────────────────────────────────────────────
+
+export function parsePrReference(input: string): PrReference | null {
+  // Full GitHub URL: https://github.com/owner/repo/pull/123
+  const urlMatch = input.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+  if (urlMatch) return { owner: urlMatch[1], repo: urlMatch[2], number: parseInt(urlMatch[3], 10) };
+  // Short format: owner/repo#123
+  const shortMatch = input.match(/^([^/]+)\/([^#]+)#(\d+)$/);
+  if (shortMatch) return { owner: shortMatch[1], repo: shortMatch[2], number: parseInt(shortMatch[3], 10) };
+  return null;
+}
+
+export function parseBareNumber(input: string): number | null {
+  const match = input.trim().match(/^#?(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function filesFromDiff(diff: string): string[] {
+  return [...new Set(Array.from(diff.matchAll(/^diff --git a\/(.+?) b\//gm), (m) => m[1]))];
+}
+
+/** File content at the reviewed commit when it can be read, else the working tree copy. */
+export function readTargetFile(target: Pick<ReviewTarget, "repoCwd" | "headSha">, file: string): string | null {
+  if (target.headSha) {
+    try {
+      return execFileSync("git", ["-C", target.repoCwd, "show", `${target.headSha}:${file}`], {
+        encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"], maxBuffer: 16 * 1024 * 1024,
+      });
+    } catch {}
+  }
+  try {
+    return fs.readFileSync(path.join(target.repoCwd, file), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+// ─── PR resolution via gh CLI ─────────────────────────────────────────────────
+
+export async function getRepoSlug(pi: ExtensionAPI, repoCwd: string): Promise<string | null> {
+  const { stdout, code } = await pi.exec("git", ["-C", repoCwd, "remote", "get-url", "origin"]);
+  if (code !== 0) return null;
+  const match = stdout.trim().match(/github\.com[:/]([^/]+\/[^/.]+)/);
+  return match ? match[1].replace(/\.git$/, "") : null;
+}
+
+export async function fetchPrInfo(pi: ExtensionAPI, pr: PrReference): Promise<PrInfo | { error: string }> {
+  const repoSlug = `${pr.owner}/${pr.repo}`;
+  const { stdout: diff, code: diffCode, stderr: diffErr } = await pi.exec("gh", [
+    "pr", "diff", String(pr.number), "--repo", repoSlug,
+  ]);
+  if (diffCode !== 0) return { error: `Failed to fetch PR diff: ${diffErr.trim() || `exit code ${diffCode}`}` };
+  if (!diff.trim()) return { error: "PR has no changes (empty diff)." };
+
+  const { stdout: prJson, code: prCode } = await pi.exec("gh", [
+    "pr", "view", String(pr.number), "--repo", repoSlug,
+    "--json", "headRefName,baseRefName,headRefOid,baseRefOid,changedFiles,commits",
+  ]);
+  const fallback = (): PrInfo => ({
+    diff, changedFiles: filesFromDiff(diff), branch: `PR #${pr.number}`, baseBranch: "unknown", commitCount: 0, repoSlug,
+    prNumber: pr.number,
+  });
+
+  if (prCode !== 0) return fallback();
+  try {
+    const meta = JSON.parse(prJson);
+    return {
+      diff,
+      changedFiles: (meta.changedFiles || []).map((f: any) => f.path || f),
+      branch: meta.headRefName || `PR #${pr.number}`,
+      baseBranch: meta.baseRefName || "unknown",
+      commitCount: (meta.commits || []).length,
+      repoSlug,
+      baseSha: meta.baseRefOid || undefined,
+      headSha: meta.headRefOid || undefined,
+      prNumber: pr.number,
+    };
+  } catch {
+    return fallback();
+  }
+}
+
+export async function fetchPrInfoFromRepo(pi: ExtensionAPI, repoCwd: string, prNumber: number): Promise<PrInfo | { error: string }> {
+  const slug = await getRepoSlug(pi, repoCwd);
+  if (!slug) return { error: "Could not determine GitHub repository from git remote." };
+  const [owner, repo] = slug.split("/");
+  return fetchPrInfo(pi, { owner, repo, number: prNumber });
+}
+
+export async function searchPrsInRepo(
+  pi: ExtensionAPI,
+  repoCwd: string,
+  query: string,
+): Promise<Array<{ number: number; title: string; headRefName: string; state: string }>> {
+  const slug = await getRepoSlug(pi, repoCwd);
+  if (!slug) return [];
+  const { stdout, code } = await pi.exec("gh", [
+    "pr", "list", "--repo", slug, "--search", query, "--state", "all",
+    "--json", "number,title,headRefName,state", "--limit", "10",
+  ]);
+  if (code !== 0) return [];
+  try { return JSON.parse(stdout); } catch { return []; }
+}
+
+/**
+ * Resolve flexible user input to a PR.
+ * Accepts: full URL, owner/repo#number, bare PR number (#42 or 42),
+ * Jira ticket ID (PROJ-123), or branch name / search query.
+ * Returns PrInfo on success, { error } on failure, or null if user cancelled.
+ */
+export async function resolveFlexiblePrInput(
+  pi: ExtensionAPI,
+  ui: ExtensionContext["ui"],
+  input: string,
+  repoCwd: string,
+): Promise<PrInfo | { error: string } | null> {
+  const trimmed = input.trim();
+
+  const prRef = parsePrReference(trimmed);
+  if (prRef) {
+    ui.notify(`Fetching PR #${prRef.number} from ${prRef.owner}/${prRef.repo}...`, "info");
+    return fetchPrInfo(pi, prRef);
+  }
+
+  const bareNum = parseBareNumber(trimmed);
+  if (bareNum !== null) {
+    ui.notify(`Fetching PR #${bareNum}...`, "info");
+    return fetchPrInfoFromRepo(pi, repoCwd, bareNum);
+  }
+
+  ui.notify(`Searching PRs matching "${trimmed}"...`, "info");
+  const prs = await searchPrsInRepo(pi, repoCwd, trimmed);
+  if (prs.length === 0) return { error: `No PRs found matching "${trimmed}".` };
+  if (prs.length === 1) {
+    ui.notify(`Found PR #${prs[0].number}: ${prs[0].title}`, "info");
+    return fetchPrInfoFromRepo(pi, repoCwd, prs[0].number);
+  }
+  const choices = [...prs.map((p) => `#${p.number}: ${p.title} [${p.state}]`), "Cancel"];
+  const choice = await ui.select(`Multiple PRs found for "${trimmed}":`, choices);
+  if (!choice || choice === "Cancel") return null;
+  const selectedNum = parseInt(choice.match(/#(\d+)/)?.[1] || "0", 10);
+  if (!selectedNum) return { error: "Could not parse selection." };
+  return fetchPrInfoFromRepo(pi, repoCwd, selectedNum);
+}
+
+// ─── Local branch helpers ─────────────────────────────────────────────────────
+
+export interface DetectedBase {
+  ref: string;
+  /** Where the base came from — shown to the user so a wrong guess is easy to spot. */
+  source: "open PR" | "upstream tracking" | "project.yml" | "default";
+}
+
+async function refExists(pi: ExtensionAPI, repoCwd: string, ref: string): Promise<boolean> {
+  const { code } = await pi.exec("git", ["-C", repoCwd, "rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+  return code === 0;
+}
+
+/** `name` as a local branch, else as origin/name; null when neither exists. */
+async function resolveBranchRef(pi: ExtensionAPI, repoCwd: string, name: string): Promise<string | null> {
+  if (await refExists(pi, repoCwd, name)) return name;
+  if (await refExists(pi, repoCwd, `origin/${name}`)) return `origin/${name}`;
+  return null;
+}
+
+/**
+ * Base to diff `head` against, first match wins:
+ *   1. base branch of an open PR from this branch (stacked PRs)
+ *   2. upstream tracking branch, when it is another branch (`git branch -u parent`)
+ *   3. `repos[].base_branch` in project.yml
+ *   4. master, else main
+ */
+export async function detectBaseBranch(
+  pi: ExtensionAPI,
+  cwd: string,
+  repo: string,
+  repoCwd: string,
+  head = "HEAD",
+): Promise<DetectedBase> {
+  const { stdout: branchRaw, code: branchCode } = await pi.exec("git", ["-C", repoCwd, "rev-parse", "--abbrev-ref", head]);
+  const branch = branchCode === 0 ? branchRaw.trim() : "";
+  const configured = loadProjectConfig(cwd)?.repos?.find((r) => r?.name === repo)?.base_branch?.trim() || "";
+  const trunks = new Set(["master", "main", "HEAD", configured].filter(Boolean));
+
+  if (branch && !trunks.has(branch)) {
+    const slug = await getRepoSlug(pi, repoCwd);
+    if (slug) {
+      const { stdout, code } = await pi.exec("gh", [
+        "pr", "list", "--repo", slug, "--head", branch, "--state", "open", "--json", "baseRefName", "--limit", "1",
+      ], { timeout: 15000 });
+      let prBase = "";
+      try { prBase = code === 0 ? JSON.parse(stdout)[0]?.baseRefName || "" : ""; } catch {}
+      const ref = prBase ? await resolveBranchRef(pi, repoCwd, prBase) : null;
+      if (ref) return { ref, source: "open PR" };
+    }
+
+    const [{ stdout: remoteRaw }, { stdout: mergeRaw }] = await Promise.all([
+      pi.exec("git", ["-C", repoCwd, "config", `branch.${branch}.remote`]),
+      pi.exec("git", ["-C", repoCwd, "config", `branch.${branch}.merge`]),
+    ]);
+    const parent = mergeRaw.trim().replace(/^refs\/heads\//, "");
+    const remote = remoteRaw.trim();
+    if (parent && parent !== branch) {
+      const ref = remote && remote !== "." && await refExists(pi, repoCwd, `${remote}/${parent}`)
+        ? `${remote}/${parent}`
+        : await resolveBranchRef(pi, repoCwd, parent);
+      if (ref) return { ref, source: "upstream tracking" };
+    }
+  }
+
+  if (configured) {
+    const ref = await resolveBranchRef(pi, repoCwd, configured);
+    if (ref) return { ref, source: "project.yml" };
+  }
+  for (const trunk of ["master", "main"]) {
+    if (await refExists(pi, repoCwd, trunk)) return { ref: trunk, source: "default" };
+  }
+  return { ref: "master", source: "default" };
+}
+
+export interface RefRange {
+  base: string;
+  head: string;
+  /** `base..head`: diff the two refs directly instead of from their merge base (`base...head`). */
+  direct: boolean;
+}
+
+/** "release/2.0...feat/x", "v1.2..v1.3", "abc123.." (head defaults to HEAD). Null for anything else. */
+export function parseRefRange(input: string): RefRange | null {
+  const match = input.trim().match(/^(\S+?)(\.{2,3})(\S*)$/);
+  if (!match || match[3].startsWith(".")) return null;
+  return { base: match[1], head: match[3] || "HEAD", direct: match[2] === ".." };
+}
+
+/**
+ * A single commit SHA or tag reviews that commit alone (`ref^..ref`). Null
+ * for anything else — branch names go on to the PR lookup. A root commit has
+ * no parent to diff against and is an error.
+ */
+export async function parseCommitRef(pi: ExtensionAPI, repoCwd: string, input: string): Promise<RefRange | { error: string } | null> {
+  const ref = input.trim();
+  if (/^\d+$/.test(ref) || /\s/.test(ref)) return null;
+  const isSha = /^[0-9a-f]{7,40}$/i.test(ref) && await refExists(pi, repoCwd, ref);
+  if (!isSha && !(await refExists(pi, repoCwd, `refs/tags/${ref}`))) return null;
+  if (!(await refExists(pi, repoCwd, `${ref}^`))) {
+    return { error: `${ref} is the repo's first commit and has no parent to diff against.` };
+  }
+  return { base: `${ref}^`, head: ref, direct: true };
+}
+
+// ─── Interactive target resolution ───────────────────────────────────────────
+
+/**
+ * A switch such as `--personas` among a review command's arguments: strip it
+ * so the rest resolves as a target, and report whether it was there.
+ */
+export function takeSwitch(args: string, name: string): { args: string; on: boolean } {
+  const tokens = args.trim().split(/\s+/).filter(Boolean);
+  const rest = tokens.filter((t) => t !== name);
+  return { args: rest.join(" "), on: rest.length < tokens.length };
+}
+
+/**
+ * Turn command arguments into a concrete diff to review.
+ *   (empty)                    → repo picker, then review-type picker
+ *   my-repo                    → skip to review-type picker
+ *   42 / #42 / PROJ-123 / name → ask repo first, then resolve as a PR
+ *   https://github.com/…       → skip repo picker entirely
+ *   [my-repo] staged           → staged changes only
+ *   [my-repo] working          → staged + unstaged + untracked changes
+ *   [my-repo] last 3           → the last 3 commits
+ *   [my-repo] base..head       → explicit range: branches, tags or SHAs
+ *                                (`...` diffs from the merge base)
+ *   [my-repo] <sha> / <tag>    → that single commit
+ * Returns null when the user cancels or resolution fails (already notified).
+ */
+export async function resolveReviewTarget(
+  pi: ExtensionAPI,
+  ctx: ExtensionContext,
+  args: string,
+): Promise<ReviewTarget | null> {
+  const trimmedArgs = args.trim();
+
+  // Full URL or owner/repo#number → skip pickers
+  const prFromArgs = trimmedArgs ? parsePrReference(trimmedArgs) : null;
+  if (prFromArgs) {
+    ctx.ui.notify(`Fetching PR #${prFromArgs.number} from ${prFromArgs.owner}/${prFromArgs.repo}...`, "info");
+    const info = await fetchPrInfo(pi, prFromArgs);
+    if ("error" in info) { ctx.ui.notify(info.error, "error"); return null; }
+    // Try to find the repo locally so agents can read full files
+    const repoCwd = getRepoCwd(ctx.cwd, prFromArgs.repo);
+    return { ...info, repo: prFromArgs.repo, repoCwd, label: `PR #${prFromArgs.number} (${prFromArgs.repo})` };
+  }
+
+  // Repo picker
+  const availableRepos = listAvailableRepos(ctx.cwd);
+  if (availableRepos.length === 0) {
+    ctx.ui.notify("No repos found. Check your .pi/local.json reposPath or project.yml.", "error");
+    return null;
+  }
+
+  // A leading repo name may be followed by a PR reference or a local scope
+  const [firstArg, ...otherArgs] = trimmedArgs.split(/\s+/);
+  const repoArg = availableRepos.includes(firstArg) ? firstArg : null;
+  const restArgs = repoArg ? otherArgs.join(" ") : trimmedArgs;
+
+  let selectedRepo: string;
+  if (repoArg) {
+    selectedRepo = repoArg;
+  } else if (availableRepos.length === 1) {
+    // Single repo — auto-select without asking
+    selectedRepo = availableRepos[0];
+    ctx.ui.notify(`Using repo: ${selectedRepo}`, "info");
+  } else {
+    const choice = await ctx.ui.select("Which repo?", [...availableRepos, "Cancel"]);
+    if (!choice || choice === "Cancel") { ctx.ui.notify("Cancelled.", "info"); return null; }
+    selectedRepo = choice;
+  }
+
+  const repoCwd = path.join(getReposPath(ctx.cwd), selectedRepo);
+
+  // Args had a local scope → staged / working tree / last N commits
+  const scopeFromArgs = restArgs ? parseLocalScope(restArgs) : null;
+  if (scopeFromArgs) return notifyLocalScope(ctx, await resolveLocalScope(pi, selectedRepo, repoCwd, scopeFromArgs), scopeFromArgs);
+
+  // Args had an explicit range, a commit SHA or a tag → diff it locally
+  const rangeFromArgs = restArgs ? parseRefRange(restArgs) ?? await parseCommitRef(pi, repoCwd, restArgs) : null;
+  if (rangeFromArgs && "error" in rangeFromArgs) { ctx.ui.notify(rangeFromArgs.error, "error"); return null; }
+  if (rangeFromArgs) {
+    const local = await resolveLocalRange(pi, selectedRepo, repoCwd, rangeFromArgs.base, rangeFromArgs.head, rangeFromArgs.direct);
+    if ("error" in local) { ctx.ui.notify(local.error, "error"); return null; }
+    if (local.changedFiles.length === 0) { ctx.ui.notify(`No changes in ${local.label}.`, "warning"); return null; }
+    return local;
+  }
+
+  // Args had a flexible value (not a repo name) → resolve it
+  if (restArgs) {
+    const info = await resolveFlexiblePrInput(pi, ctx.ui, restArgs, repoCwd);
+    if (!info) { ctx.ui.notify("Cancelled.", "info"); return null; }
+    if ("error" in info) { ctx.ui.notify(info.error, "error"); return null; }
+    return { ...info, repo: selectedRepo, repoCwd, label: `${info.branch} → ${info.baseBranch} (${selectedRepo})` };
+  }
+
+  // Review type picker
+  const { stdout: branchRaw, code: branchCode } = await pi.exec("git", ["-C", repoCwd, "rev-parse", "--abbrev-ref", "HEAD"]);
+  const currentBranch = branchCode === 0 ? branchRaw.trim() : null;
+  const [{ code: stagedCode }, { stdout: statusRaw }] = await Promise.all([
+    pi.exec("git", ["-C", repoCwd, "diff", "--cached", "--quiet"]),
+    pi.exec("git", ["-C", repoCwd, "status", "--porcelain"]),
+  ]);
+
+  const options: string[] = [];
+  if (currentBranch && !["master", "main", "HEAD"].includes(currentBranch)) {
+    options.push(`Review current branch (${currentBranch})`);
+  }
+  if (stagedCode === 1) options.push("Review staged changes");
+  if (statusRaw.trim()) options.push("Review working tree (staged + unstaged + untracked)");
+  options.push("Review last N commits");
+  options.push("Review a PR (number, URL, Jira ticket, or branch name)");
+  options.push("Cancel");
+
+  const reviewChoice = await ctx.ui.select(`What to review in ${selectedRepo}?`, options);
+  if (!reviewChoice || reviewChoice === "Cancel") { ctx.ui.notify("Cancelled.", "info"); return null; }
+
+  if (reviewChoice.startsWith("Review staged") || reviewChoice.startsWith("Review working")) {
+    const scope: LocalScope = reviewChoice.startsWith("Review staged") ? { kind: "staged" } : { kind: "working" };
+    return notifyLocalScope(ctx, await resolveLocalScope(pi, selectedRepo, repoCwd, scope), scope);
+  }
+
+  if (reviewChoice.startsWith("Review last")) {
+    const countInput = await ctx.ui.input("How many commits?", "e.g. 1, 3");
+    if (!countInput) { ctx.ui.notify("Cancelled.", "info"); return null; }
+    const scope = parseLocalScope(`last ${countInput.trim()}`);
+    if (!scope) { ctx.ui.notify(`Not a commit count: ${countInput}`, "error"); return null; }
+    return notifyLocalScope(ctx, await resolveLocalScope(pi, selectedRepo, repoCwd, scope), scope);
+  }
+
+  if (reviewChoice.startsWith("Review a PR")) {
+    const userInput = await ctx.ui.input(
+      "PR number, URL, Jira ticket, or branch name:",
+      "e.g. 42, #42, PROJ-123, https://github.com/owner/repo/pull/123",
+    );
+    if (!userInput) { ctx.ui.notify("Cancelled.", "info"); return null; }
+    const info = await resolveFlexiblePrInput(pi, ctx.ui, userInput, repoCwd);
+    if (!info) { ctx.ui.notify("Cancelled.", "info"); return null; }
+    if ("error" in info) { ctx.ui.notify(info.error, "error"); return null; }
+    return { ...info, repo: selectedRepo, repoCwd, label: `${info.branch} → ${info.baseBranch} (${selectedRepo})` };
+  }
+
+  // Current branch vs base
+  const base = await detectBaseBranch(pi, ctx.cwd, selectedRepo, repoCwd);
+  if (base.source !== "default") ctx.ui.notify(`Base: ${base.ref} (from ${base.source})`, "info");
+  const local = await resolveLocalRange(pi, selectedRepo, repoCwd, base.ref);
+  if ("error" in local) { ctx.ui.notify(local.error, "error"); return null; }
+  if (local.changedFiles.length === 0) {
+    ctx.ui.notify(`No changes between '${local.branch}' and '${base.ref}' in ${selectedRepo}.`, "warning");
+    return null;
+  }
+  return local;
+}
+
+// ─── Non-interactive target resolution ────────────────────────────────────────
+
+export interface TargetRefs {
+  repo?: string;
+  base?: string;
+  head?: string;
+  /** PR number (needs a repo), owner/repo#number or full URL. */
+  pr?: string;
+  /** Diff base and head directly (`base..head`) instead of from their merge base. */
+  direct?: boolean;
+  /** Uncommitted changes or the last N commits instead of base...head. */
+  scope?: LocalScope;
+}
+
+/**
+ * Resolve a target from explicit refs, without pickers (CI / print mode).
+ * The repo defaults to the only available one, the base to the detected
+ * parent of head (see detectBaseBranch) and the head to the repo's
+ * checked-out HEAD. A range with no changes is
+ * returned as-is; the caller decides whether that is an error.
+ */
+export async function resolveTargetFromRefs(
+  pi: ExtensionAPI,
+  cwd: string,
+  refs: TargetRefs,
+): Promise<ReviewTarget | { error: string }> {
+  const prRef = refs.pr ? parsePrReference(refs.pr) : null;
+  if (prRef) {
+    const info = await fetchPrInfo(pi, prRef);
+    if ("error" in info) return info;
+    return { ...info, repo: prRef.repo, repoCwd: getRepoCwd(cwd, prRef.repo), label: `PR #${prRef.number} (${prRef.repo})` };
+  }
+
+  const availableRepos = listAvailableRepos(cwd);
+  let repo = refs.repo;
+  if (!repo) {
+    if (availableRepos.length !== 1) {
+      return { error: availableRepos.length === 0
+        ? "No repos found. Check your .pi/local.json reposPath or project.yml."
+        : `Several repos available (${availableRepos.join(", ")}) — pass --repo.` };
+    }
+    repo = availableRepos[0];
+  } else if (!availableRepos.includes(repo)) {
+    return { error: `Repo '${repo}' not found under ${getReposPath(cwd)}.` };
+  }
+  const repoCwd = path.join(getReposPath(cwd), repo);
+
+  if (refs.pr) {
+    const prNumber = parseBareNumber(refs.pr);
+    if (prNumber === null) return { error: `--pr takes a number, owner/repo#number or a PR URL, got '${refs.pr}'.` };
+    const info = await fetchPrInfoFromRepo(pi, repoCwd, prNumber);
+    if ("error" in info) return info;
+    return { ...info, repo, repoCwd, label: `PR #${prNumber} (${repo})` };
+  }
+
+  if (refs.scope) return resolveLocalScope(pi, repo, repoCwd, refs.scope);
+  const head = refs.head || "HEAD";
+  const baseBranch = refs.base || (await detectBaseBranch(pi, cwd, repo, repoCwd, head)).ref;
+  return resolveLocalRange(pi, repo, repoCwd, baseBranch, head, refs.direct);
+}
+
+// ─── Local ranges ─────────────────────────────────────────────────────────────
+
+/**
+ * Changes on `head` since its merge base with `baseBranch` in a local clone,
+ * or — with `direct` — everything that differs between the two refs.
+ */
+export async function resolveLocalRange(
+  pi: ExtensionAPI,
+  repo: string,
+  repoCwd: string,
+  baseBranch: string,
+  head = "HEAD",
+  direct = false,
+): Promise<ReviewTarget | { error: string }> {
+  if (!(await refExists(pi, repoCwd, baseBranch))) return { error: `Base '${baseBranch}' not found in ${repo}.` };
+  if (!(await refExists(pi, repoCwd, head))) return { error: `Head '${head}' not found in ${repo}.` };
+
+  let branch = head;
+  if (head === "HEAD") {
+    const { stdout: branchRaw, code: branchCode } = await pi.exec("git", ["-C", repoCwd, "rev-parse", "--abbrev-ref", "HEAD"]);
+    if (branchCode === 0 && branchRaw.trim()) branch = branchRaw.trim();
+  }
+
+  const range = direct ? `${baseBranch}..${head}` : `${baseBranch}...${head}`;
+  const [filesResult, diffResult, logResult, mergeBaseResult, headResult] = await Promise.all([
+    pi.exec("git", ["-C", repoCwd, "diff", "--name-only", range]),
+    pi.exec("git", ["-C", repoCwd, "diff", range]),
+    pi.exec("git", ["-C", repoCwd, "log", "--oneline", `${baseBranch}..${head}`]),
+    direct
+      ? pi.exec("git", ["-C", repoCwd, "rev-parse", baseBranch])
+      : pi.exec("git", ["-C", repoCwd, "merge-base", baseBranch, head]),
+    pi.exec("git", ["-C", repoCwd, "rev-parse", head]),
+  ]);
+
+  return {
+    diff: diffResult.stdout,
+    changedFiles: filesResult.stdout.trim().split("\n").filter(Boolean),
+    branch,
+    baseBranch,
+    commitCount: logResult.stdout.trim().split("\n").filter(Boolean).length,
+    repoSlug: (await getRepoSlug(pi, repoCwd)) || "",
+    baseSha: mergeBaseResult.code === 0 ? mergeBaseResult.stdout.trim() : undefined,
+    headSha: headResult.code === 0 ? headResult.stdout.trim() : undefined,
+    repo,
+    repoCwd,
+    label: `${branch} → ${baseBranch} (${repo})`,
+  };
+}
+
+// ─── Uncommitted and recent changes ───────────────────────────────────────────
+
+export type LocalScope =
+  | { kind: "staged" }
+  | { kind: "working" }
+  | { kind: "commits"; count: number };
+
+/**
+ * "staged" (or "cached"), "working" (or "wip", "uncommitted", "working-tree"),
+ * "last 3" (or "last-3", "HEAD~3"). Null when `input` is anything else.
+ */
+export function parseLocalScope(input: string): LocalScope | null {
+  const value = input.trim().toLowerCase();
+  if (value === "staged" || value === "cached") return { kind: "staged" };
+  if (["working", "working-tree", "wip", "uncommitted"].includes(value)) return { kind: "working" };
+  const commits = value.match(/^(?:last[\s-]*|head~)(\d+)$/);
+  if (commits && parseInt(commits[1], 10) > 0) return { kind: "commits", count: parseInt(commits[1], 10) };
+  return null;
+}
+
+export function describeLocalScope(scope: LocalScope): string {
+  if (scope.kind === "staged") return "staged changes";
+  if (scope.kind === "working") return "working tree";
+  return `last ${scope.count} commit${scope.count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Diff for a local scope in a clone:
+ *   staged  → `git diff --cached`
+ *   working → `git diff HEAD` plus untracked files (not ignored)
+ *   commits → `git diff HEAD~N HEAD`
+ * Uncommitted scopes carry no head SHA, so they never count as a previous
+ * run for incremental re-reviews. An empty diff is returned as-is.
+ */
+export async function resolveLocalScope(
+  pi: ExtensionAPI,
+  repo: string,
+  repoCwd: string,
+  scope: LocalScope,
+): Promise<ReviewTarget | { error: string }> {
+  const git = (...args: string[]) => pi.exec("git", ["-C", repoCwd, ...args]);
+  const { stdout: branchRaw, code: branchCode } = await git("rev-parse", "--abbrev-ref", "HEAD");
+  const branch = branchCode === 0 && branchRaw.trim() ? branchRaw.trim() : "HEAD";
+  const { stdout: headRaw, code: headCode } = await git("rev-parse", "HEAD");
+  const headSha = headCode === 0 ? headRaw.trim() : undefined;
+  const common = { branch, repo, repoCwd, repoSlug: (await getRepoSlug(pi, repoCwd)) || "", label: `${branch} — ${describeLocalScope(scope)} (${repo})` };
+
+  if (scope.kind === "commits") {
+    const base = `HEAD~${scope.count}`;
+    const { stdout: baseRaw, code: baseCode } = await git("rev-parse", "--verify", base);
+    if (baseCode !== 0) return { error: `${branch} has fewer than ${scope.count + 1} commits in ${repo}.` };
+    const [filesResult, diffResult, logResult] = await Promise.all([
+      git("diff", "--name-only", base, "HEAD"),
+      git("diff", base, "HEAD"),
+      git("log", "--oneline", `${base}..HEAD`),
+    ]);
+    return {
+      ...common,
+      diff: diffResult.stdout,
+      changedFiles: filesResult.stdout.trim().split("\n").filter(Boolean),
+      baseBranch: base,
+      commitCount: logResult.stdout.trim().split("\n").filter(Boolean).length,
+      baseSha: baseRaw.trim(),
+      headSha,
+    };
+  }
+
+  const diffArgs = scope.kind === "staged" ? ["--cached"] : ["HEAD"];
+  const [filesResult, diffResult] = await Promise.all([
+    git("diff", "--name-only", ...diffArgs),
+    git("diff", ...diffArgs),
+  ]);
+  if (filesResult.code !== 0) return { error: `git diff failed in ${repo}: ${filesResult.stderr.trim()}` };
+  let diff = diffResult.stdout;
+  const changedFiles = filesResult.stdout.trim().split("\n").filter(Boolean);
+
+  if (scope.kind === "working") {
+    // New files aren't in `git diff HEAD` until they are added
+    const { stdout: untrackedRaw } = await git("ls-files", "--others", "--exclude-standard");
+    for (const file of untrackedRaw.trim().split("\n").filter(Boolean)) {
+      const { stdout } = await pi.exec("git", ["diff", "--no-index", "--", "/dev/null", file], { cwd: repoCwd });
+      if (!stdout) continue;
+      diff += (diff && !diff.endsWith("\n") ? "\n" : "") + stdout;
+      changedFiles.push(file);
+    }
+  }
+
+  return { ...common, diff, changedFiles, baseBranch: "HEAD", commitCount: 0, baseSha: headSha };
+}
+
+/** Notify and drop failed or empty local-scope targets, like the other picker paths. */
+function notifyLocalScope(ctx: ExtensionContext, target: ReviewTarget | { error: string }, scope: LocalScope): ReviewTarget | null {
+  if ("error" in target) { ctx.ui.notify(target.error, "error"); return null; }
+  if (target.changedFiles.length === 0) {
+    ctx.ui.notify(`No changes to review (${describeLocalScope(scope)}, ${target.repo}).`, "warning");
+    return null;
+  }
+  return target;
+}
@@ -0,0 +1,94 @@
+import { SIMILARITY_THRESHOLD, textSimilarity } from "./consolidate";
+import { listReviewRecords, saveReviewRecord } from "./history";
+import type {
+  ConsolidatedFinding, FindingTriage, ReviewRecord, ReviewTarget, SuppressedFinding, TriageDecision,
+} from "./types";
+
+// ─── Finding triage ───────────────────────────────────────────────────────────
+//
+// /review-triage stores one decision per finding on the review record itself.
+// Dismissed and false-positive findings of a branch are suppressed in every
+// later review of that branch (or PR): same file, and title + description
+// similar enough to count as the same issue. Line numbers are ignored since
+// code moves between commits.
+
+export const TRIAGE_LABEL: Record<TriageDecision, string> = {
+  accepted: "✅ accepted",
+  dismissed: "🙈 dismissed",
+  "false positive": "🚫 false positive",
+};
+
+export function getTriage(record: ReviewRecord, index: number): FindingTriage | undefined {
+  return record.triage?.find((t) => t.index === index);
+}
+
+/** Store (or replace) the decision for `record.findings[index]` and save the record. */
+export function saveTriageDecision(
+  cwd: string,
+  record: ReviewRecord,
+  index: number,
+  decision: TriageDecision,
+  reason?: string,
+): FindingTriage {
+  const f = record.findings[index];
+  const entry: FindingTriage = {
+    index,
+    file: f.file,
+    line: f.line,
+    title: f.title,
+    description: f.description,
+    decision,
+    ...(reason ? { reason } : {}),
+    decidedAt: new Date().toISOString(),
+  };
+  record.triage = [...(record.triage ?? []).filter((t) => t.index !== index), entry].sort((a, b) => a.index - b.index);
+  saveReviewRecord(cwd, record);
+  return entry;
+}
+
+function isSameBranch(record: ReviewRecord, target: Pick<ReviewTarget, "branch" | "prNumber">): boolean {
+  if (target.prNumber !== undefined && record.prNumber === target.prNumber) return true;
+  return record.branch === target.branch;
+}
+
+/** Dismissed / false-positive decisions from earlier reviews of the same repo and branch (or PR). */
+export function findTriageSuppressions(
+  cwd: string,
+  target: Pick<ReviewTarget, "repo" | "branch" | "prNumber">,
+): Array<{ entry: FindingTriage; reviewId: string }> {
+  return listReviewRecords(cwd, { repo: target.repo })
+    .filter((r) => r.triage?.length && isSameBranch(r, target))
+    .flatMap((r) => r.triage!
+      .filter((t) => t.decision !== "accepted")
+      .map((entry) => ({ entry, reviewId: r.id })));
+}
+
+/** Split `findings` into the ones to report and the ones an earlier triage suppressed. */
+export function suppressTriagedFindings(
+  findings: ConsolidatedFinding[],
+  suppressions: Array<{ entry: FindingTriage; reviewId: string }>,
+): { findings: ConsolidatedFinding[]; suppressed: SuppressedFinding[] } {
+  if (suppressions.length === 0) return { findings, suppressed: [] };
+  const kept: ConsolidatedFinding[] = [];
+  const suppressed: SuppressedFinding[] = [];
+  for (const finding of findings) {
+    const match = suppressions.find(({ entry }) =>
+      entry.file === finding.file && textSimilarity(finding, entry) >= SIMILARITY_THRESHOLD,
+    );
+    if (!match) kept.push(finding);
+    else suppressed.push({ finding, decision: match.entry.decision, reason: match.entry.reason, reviewId: match.reviewId });
+  }
+  return { findings: kept, suppressed };
+}
+
+/** Follow-up message asking the agent to fix the accepted findings, as a todo list. */
+export function formatAcceptedTodo(record: ReviewRecord, indexes: number[]): string {
+  let text = `Fix these code review findings accepted during triage of ${record.label} (review \`${record.id}\`, repo ${record.repo}).\n`;
+  text += `Work through them one at a time and check each off when done:\n\n`;
+  for (const i of indexes) {
+    const f = record.findings[i];
+    text += `- [ ] \`${f.file}:${f.line}\` — **${f.title}** (${f.severity} · ${f.category})\n  ${f.description}\n`;
+    if (f.suggestion) text += `  Suggested fix: ${f.suggestion}\n`;
+  }
+  return text;
+}
@@ -0,0 +1,283 @@
+/**
+ * Shared types for the review engine used by /review-me, /parallel-review
+ * and /parallel-review-lite.
+ */
+
+// ─── Findings ─────────────────────────────────────────────────────────────────
+
+export type Severity = "critical" | "warning" | "suggestion";
+
+export interface ReviewFinding {
+  file: string;
+  line: number;
+  severity: Severity;
+  category: string;
+  title: string;
+  description: string;
+  suggestion?: string;
+}
+
+export interface ReviewAgentOutput {
+  findings: ReviewFinding[];
+  summary: string;
+  score: number;
+}
+
+/** Tokens and estimated USD cost, summed over assistant messages (the pi-ai `Usage` shape). */
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  totalTokens: number;
+  cost: { input: number; output: number; cacheRead: number; cacheWrite: number; total: number };
+}
+
+export interface ReviewAgentResult {
+  model: string;
+  displayName: string;
+  output: ReviewAgentOutput | null;
+  error?: string;
+  exitCode: number;
+  durationMs?: number;
+  /** Trust weight from project.yml review.models (default 1). */
+  weight?: number;
+  /** Persona mode: the specialist persona id this agent reviewed as (see personas.ts). */
+  persona?: string;
+  /** Chunked reviews: files this agent actually reviewed, and how many chunks failed. */
+  reviewedFiles?: string[];
+  /** Reviewed files that were also in a chunk this agent failed on, so only partly reviewed. */
+  partialFiles?: string[];
+  chunks?: { total: number; failed: number };
+  /** Every chunk and retry of this agent. */
+  usage?: TokenUsage;
+  /** Repair turns taken after schema validation failed, and how many produced valid JSON. */
+  repairs?: { attempted: number; recovered: number };
+}
+
+/** Incremental re-review label relative to the previous stored run. */
+export type FindingStatus = "new" | "still present" | "resolved";
+
+/** Verification pass outcome for a low-consensus finding (see verify.ts). */
+export type VerificationVerdict = "confirmed" | "refuted" | "uncertain";
+
+export interface FindingVerification {
+  verdict: VerificationVerdict;
+  justification: string;
+  /** Display name of the verifier agent. */
+  verifier: string;
+}
+
+/** What the verification pass did in one run. */
+export interface VerificationSummary {
+  verifier: string;
+  /** Low-consensus findings sent to the verifier. */
+  checked: number;
+  /** Low-consensus findings left unchecked because of review.verify.max_findings. */
+  skipped: number;
+  durationMs: number;
+  usage?: TokenUsage;
+  /** Set when the verifier failed; findings then keep no verdict. */
+  error?: string;
+}
+
+/** How project.yml `review.budget` shaped a run (see usage.ts). */
+export interface BudgetOutcome {
+  maxCost?: number;
+  maxTokens?: number;
+  onExceed: "stop" | "drop-models";
+  /** Models left out before the run because the estimate was over budget. */
+  dropped: Array<{ name: string; estimatedCost: number; estimatedTokens: number }>;
+  /** The budget ran out mid-run and the agents still working were stopped. */
+  exhausted: boolean;
+}
+
+export interface ConsolidatedFinding extends ReviewFinding {
+  agents: string[];
+  /** Σ over agents of trust weight × the severity weight that agent gave. */
+  consensusScore: number;
+  /** How many agents rated the finding at each severity; `severity` is the highest. */
+  severitySpread?: Partial<Record<Severity, number>>;
+  /**
+   * Persona mode: agents that reviewed this finding's category — the
+   * consensus denominator instead of every agent in the run.
+   */
+  reviewers?: number;
+  status?: FindingStatus;
+  verification?: FindingVerification;
+}
+
+// ─── Coverage ─────────────────────────────────────────────────────────────────
+
+/** "ignored" = excluded by review.ignore_paths in project.yml. */
+export type FileCoverageStatus = "reviewed" | "partial" | "skipped" | "ignored";
+
+export interface FileCoverage {
+  file: string;
+  status: FileCoverageStatus;
+  /** Successful agents that saw (part of) this file. */
+  agents: number;
+}
+
+/** Changed files of one workspace package in a monorepo review (see packages.ts). */
+export interface PackageSlice {
+  /** Package name from its manifest; "(root)" for files outside every package. */
+  name: string;
+  /** Package directory relative to the repo root ("" for the root slice). */
+  dir: string;
+  files: string[];
+}
+
+// ─── Models ───────────────────────────────────────────────────────────────────
+
+export interface ModelSelection {
+  provider: string;
+  modelId: string;
+  displayName: string;
+  /** From project.yml review.models: trust weight, reviewer role, timeout override. */
+  weight?: number;
+  role?: string;
+  timeoutMs?: number;
+  /** Persona mode: specialist persona id assigned to this model (see personas.ts). */
+  persona?: string;
+}
+
+// ─── Review targets ───────────────────────────────────────────────────────────
+
+export interface PrReference {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+export interface PrInfo {
+  diff: string;
+  changedFiles: string[];
+  branch: string;
+  baseBranch: string;
+  commitCount: number;
+  repoSlug: string;
+  /** Base and head commits the diff was taken between, when known. */
+  baseSha?: string;
+  headSha?: string;
+  prNumber?: number;
+}
+
+export interface ReviewTarget extends PrInfo {
+  /** Repo name as listed in project.yml (or the PR's repo). */
+  repo: string;
+  repoCwd: string;
+  label: string;
+}
+
+// ─── Strategy ─────────────────────────────────────────────────────────────────
+
+/**
+ * "tools"  — agent gets the diff as a temp file plus read-only repo tools.
+ * "inline" — diff is embedded in the prompt, single-shot answer, no tools.
+ */
+export type ReviewMode = "tools" | "inline";
+
+export type ReportStyle = "classic" | "parallel" | "lite";
+
+export interface ReviewStrategy {
+  /** Command name, used for temp file prefixes and messages. */
+  name: string;
+  /** Footer status key and its human label. */
+  statusKey: string;
+  statusLabel: string;
+  mode: ReviewMode;
+  /** Hard cap on the number of models; undefined = all available. */
+  maxModels?: number;
+  /** How many preferred Claude models to pick before other providers. */
+  maxClaudeModels: number;
+  /** Use the `lite: true` subset of project.yml review.models. */
+  liteRoster?: boolean;
+  /** Parallel agents at once; undefined = all at once. */
+  concurrency?: number;
+  /** Delay before spawning agent i is i × staggerMs. */
+  staggerMs: number;
+  /** Per-agent hard timeout; undefined = no timeout. */
+  agentTimeoutMs?: number;
+  /**
+   * Inline mode only: split the diff into chunks of about this many tokens
+   * (on file/hunk boundaries); undefined = whole diff in one prompt.
+   */
+  chunkTokenBudget?: number;
+  /** Cap on chunks per model; files beyond it are reported as skipped. */
+  maxChunks?: number;
+  /** Chunks reviewed at once per model (1 = in sequence). */
+  chunkConcurrency?: number;
+  /** Emit a notification when each agent starts and finishes. */
+  notifyPerAgent: boolean;
+  reportStyle: ReportStyle;
+}
+
+// ─── Triage ───────────────────────────────────────────────────────────────────
+
+export type TriageDecision = "accepted" | "dismissed" | "false positive";
+
+/** A /review-triage decision on one finding of a stored run. */
+export interface FindingTriage {
+  /** Position of the finding in ReviewRecord.findings. */
+  index: number;
+  /** Snapshot used to match the finding in later runs (file + similarity). */
+  file: string;
+  line: number;
+  title: string;
+  description: string;
+  decision: TriageDecision;
+  reason?: string;
+  decidedAt: string;
+}
+
+/** A finding left out of a report because an earlier triage dismissed it. */
+export interface SuppressedFinding {
+  finding: ConsolidatedFinding;
+  decision: TriageDecision;
+  reason?: string;
+  /** Review whose triage suppressed it. */
+  reviewId: string;
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+/** One finished review run, as persisted under .pi/reviews/. */
+export interface ReviewRecord {
+  version: 1;
+  id: string;
+  /** Strategy name of the command that produced it (review-me, parallel-review, …). */
+  command: string;
+  reportStyle: ReportStyle;
+  label: string;
+  repo: string;
+  repoSlug: string;
+  branch: string;
+  baseBranch: string;
+  baseSha: string | null;
+  headSha: string | null;
+  prNumber?: number;
+  changedFiles: string[];
+  commitCount: number;
+  models: ModelSelection[];
+  results: ReviewAgentResult[];
+  findings: ConsolidatedFinding[];
+  /** Incremental runs: the run this one continued from, and what it fixed. */
+  previousReviewId?: string;
+  resolvedFindings?: ConsolidatedFinding[];
+  /** Findings hidden by earlier dismissed / false-positive triage of this branch. */
+  suppressedFindings?: SuppressedFinding[];
+  /** Verification pass: what it checked, and the findings it refuted (left out of `findings`). */
+  verification?: VerificationSummary;
+  refutedFindings?: ConsolidatedFinding[];
+  budget?: BudgetOutcome;
+  /** /review-triage decisions on `findings`. */
+  triage?: FindingTriage[];
+  coverage?: FileCoverage[];
+  chunkCount?: number;
+  /** Monorepo reviews: changed files per workspace package; findings are grouped by it. */
+  packages?: PackageSlice[];
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+}
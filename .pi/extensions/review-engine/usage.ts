@@ -0,0 +1,155 @@
+import type { Message } from "@mariozechner/pi-ai";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { CHARS_PER_TOKEN } from "./chunking";
+import { loadProjectConfig } from "./config";
+import type { ModelSelection, ReviewAgentResult, ReviewMode, TokenUsage, VerificationSummary } from "./types";
+
+// ─── Token usage and cost ─────────────────────────────────────────────────────
+//
+// Every assistant message a pi process emits in JSON mode carries its usage,
+// with the cost already priced by pi for that model. Agents sum theirs over
+// chunks and retries; the run total adds the verifier.
+
+export function emptyUsage(): TokenUsage {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: 0, cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 } };
+}
+
+/** Add `usage` into `total` (in place) and return `total`. */
+export function addUsage(total: TokenUsage, usage: TokenUsage | undefined): TokenUsage {
+  if (!usage) return total;
+  total.input += usage.input || 0;
+  total.output += usage.output || 0;
+  total.cacheRead += usage.cacheRead || 0;
+  total.cacheWrite += usage.cacheWrite || 0;
+  total.totalTokens += usage.totalTokens || 0;
+  for (const key of ["input", "output", "cacheRead", "cacheWrite", "total"] as const) {
+    total.cost[key] += usage.cost?.[key] || 0;
+  }
+  return total;
+}
+
+/** Usage of one assistant message (zero for anything else). */
+export function messageUsage(message: Message): TokenUsage {
+  return message.role === "assistant" ? addUsage(emptyUsage(), message.usage as TokenUsage | undefined) : emptyUsage();
+}
+
+export function usageFromMessages(messages: Message[]): TokenUsage {
+  return messages.reduce((total, m) => addUsage(total, messageUsage(m)), emptyUsage());
+}
+
+/** Whole run: every agent plus the verifier. */
+export function runUsage(results: ReviewAgentResult[], verification?: VerificationSummary): TokenUsage {
+  const total = emptyUsage();
+  for (const r of results) addUsage(total, r.usage);
+  return addUsage(total, verification?.usage);
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 10_000) return `${Math.round(n / 1000)}k`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+// ─── Budget ───────────────────────────────────────────────────────────────────
+
+export interface ReviewBudget {
+  maxCost?: number;
+  maxTokens?: number;
+  onExceed: "stop" | "drop-models";
+}
+
+/** project.yml `review.budget`; null when it sets no limit. */
+export function resolveBudget(cwd: string): ReviewBudget | null {
+  const config = loadProjectConfig(cwd)?.review?.budget;
+  const maxCost = Number(config?.max_cost);
+  const maxTokens = Number(config?.max_tokens);
+  if (!(maxCost > 0) && !(maxTokens > 0)) return null;
+  return {
+    maxCost: maxCost > 0 ? maxCost : undefined,
+    maxTokens: maxTokens > 0 ? Math.floor(maxTokens) : undefined,
+    onExceed: config?.on_exceed === "drop-models" ? "drop-models" : "stop",
+  };
+}
+
+export function isOverBudget(budget: ReviewBudget, spent: { cost: number; tokens: number }): boolean {
+  return (budget.maxCost !== undefined && spent.cost >= budget.maxCost)
+    || (budget.maxTokens !== undefined && spent.tokens >= budget.maxTokens);
+}
+
+export function describeBudget(budget: Pick<ReviewBudget, "maxCost" | "maxTokens">): string {
+  return [
+    budget.maxCost !== undefined ? formatCost(budget.maxCost) : "",
+    budget.maxTokens !== undefined ? `${formatTokens(budget.maxTokens)} tokens` : "",
+  ].filter(Boolean).join(" / ");
+}
+
+// ─── Pre-run estimate ─────────────────────────────────────────────────────────
+
+/** Reviewer JSON answers run to a few thousand characters per chunk. */
+const OUTPUT_TOKENS_PER_CHUNK = 1_500;
+/** Tools-mode agents read files and resend the growing conversation every turn. */
+const TOOLS_INPUT_FACTOR = 4;
+
+export interface CostEstimate {
+  model: ModelSelection;
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Rough per-model estimate from the prompt sizes (system prompt + each
+ * chunk's prompt, in characters) and the model's price per million tokens.
+ * Models without pricing in the registry count as free.
+ */
+export function estimateModelCosts(ctx: ExtensionContext, models: ModelSelection[], promptChars: number[], mode: ReviewMode): CostEstimate[] {
+  const available = ctx.modelRegistry.getAvailable();
+  const factor = mode === "tools" ? TOOLS_INPUT_FACTOR : 1;
+  const input = Math.ceil(promptChars.reduce((sum, chars) => sum + chars, 0) / CHARS_PER_TOKEN) * factor;
+  const output = OUTPUT_TOKENS_PER_CHUNK * promptChars.length;
+  return models.map((model) => {
+    const price = available.find((m) => m.provider === model.provider && m.id === model.modelId)?.cost;
+    const cost = price ? (input * price.input + output * price.output) / 1_000_000 : 0;
+    return { model, tokens: input + output, cost };
+  });
+}
+
+export interface BudgetPlan {
+  models: ModelSelection[];
+  dropped: CostEstimate[];
+  /** Over budget even after dropping (or with on_exceed: stop): do not run. */
+  stop: boolean;
+  estimated: { cost: number; tokens: number };
+}
+
+/**
+ * Fit the roster into the budget: as is, without its priciest models, or not
+ * at all. `reserved` (the verifier) counts toward the budget but is never dropped.
+ */
+export function applyBudget(budget: ReviewBudget, estimates: CostEstimate[], reserved: CostEstimate[] = []): BudgetPlan {
+  const total = (list: CostEstimate[]) => ({
+    cost: [...list, ...reserved].reduce((sum, e) => sum + e.cost, 0),
+    tokens: [...list, ...reserved].reduce((sum, e) => sum + e.tokens, 0),
+  });
+  // Strictly over: an estimate equal to the cap still fits
+  const over = (list: CostEstimate[]) => {
+    const t = total(list);
+    return (budget.maxCost !== undefined && t.cost > budget.maxCost) || (budget.maxTokens !== undefined && t.tokens > budget.maxTokens);
+  };
+
+  let kept = [...estimates];
+  const dropped: CostEstimate[] = [];
+  if (over(kept) && budget.onExceed === "drop-models") {
+    const byCost = [...kept].sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+    for (const e of byCost) {
+      if (!over(kept) || kept.length <= 1) break;
+      kept = kept.filter((k) => k !== e);
+      dropped.push(e);
+    }
+  }
+  return { models: kept.map((e) => e.model), dropped, stop: over(kept), estimated: total(kept) };
+}
@@ -0,0 +1,249 @@
+import type { Message } from "@mariozechner/pi-ai";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { anySignal, cleanupTempFile, getFinalOutput, READ_ONLY_TOOLS, runPiAgent, writeTempFile } from "./agent";
+import { loadProjectConfig, type ReviewVerifyConfig } from "./config";
+import { findingReviewers } from "./consolidate";
+import { consensusLevel, type ConsensusLevel } from "./export";
+import { CONSENSUS_LEVELS } from "./gate";
+import { getVerifierSystemPrompt } from "./prompts";
+import { readTargetFile } from "./target";
+import { estimateModelCosts, messageUsage, usageFromMessages, type CostEstimate } from "./usage";
+import type {
+  ConsolidatedFinding, ModelSelection, ReviewAgentResult, ReviewTarget, TokenUsage, VerificationSummary, VerificationVerdict,
+} from "./types";
+
+// ─── Verification pass ────────────────────────────────────────────────────────
+//
+// Findings only one agent (or a minority) reported are where most false
+// positives live. With `review.verify` (or --verify), one verifier agent with
+// read-only repo tools gets those findings plus the code around them and
+// answers confirmed / refuted / uncertain for each. Refuted findings leave the
+// report's severity sections; the others keep their verdict and justification.
+
+const DEFAULT_MAX_FINDINGS = 10;
+const DEFAULT_TIMEOUT_MS = 300_000;
+/** Lines of file content shown above and below each finding. */
+const SNIPPET_CONTEXT_LINES = 15;
+/** Prompt characters per verified finding: its header, description and snippet. */
+const PROMPT_CHARS_PER_FINDING = 3_000;
+
+const VERDICTS = new Set<string>(["confirmed", "refuted", "uncertain"]);
+
+export interface VerifySettings {
+  enabled: boolean;
+  /** Findings at or below this consensus level are verified. */
+  maxConsensus: ConsensusLevel;
+  maxFindings: number;
+  /** "provider/model" from project.yml; null = first roster model that succeeded. */
+  model: string | null;
+  timeoutMs: number;
+}
+
+/** project.yml `review.verify` (true or a settings object), or defaults when `forced` by --verify. */
+export function resolveVerifySettings(cwd: string, forced = false): VerifySettings {
+  const configured = loadProjectConfig(cwd)?.review?.verify;
+  const options: ReviewVerifyConfig = configured && typeof configured === "object" ? configured : {};
+  const maxConsensus = CONSENSUS_LEVELS.includes(options.max_consensus as ConsensusLevel)
+    ? options.max_consensus as ConsensusLevel
+    : "single";
+  const maxFindings = Number(options.max_findings);
+  const timeout = Number(options.timeout);
+  return {
+    enabled: forced || configured === true || (!!configured && typeof configured === "object"),
+    maxConsensus,
+    maxFindings: maxFindings > 0 ? Math.floor(maxFindings) : DEFAULT_MAX_FINDINGS,
+    model: options.model ? String(options.model) : null,
+    timeoutMs: timeout > 0 ? timeout * 1000 : DEFAULT_TIMEOUT_MS,
+  };
+}
+
+/** Findings whose consensus is at or below `maxConsensus`, in report order. */
+export function selectLowConsensus(findings: ConsolidatedFinding[], totalAgents: number, maxConsensus: ConsensusLevel): ConsolidatedFinding[] {
+  const maxRank = CONSENSUS_LEVELS.indexOf(maxConsensus);
+  return findings.filter((f) =>
+    CONSENSUS_LEVELS.indexOf(consensusLevel(f.agents.length, findingReviewers(f, totalAgents))) <= maxRank,
+  );
+}
+
+/**
+ * The configured verifier when available, else the first roster model whose
+ * review succeeded (any roster model before the review has run, for estimates).
+ */
+function chooseVerifier(ctx: ExtensionContext, models: ModelSelection[], results: ReviewAgentResult[] | null, settings: VerifySettings, quiet = false): ModelSelection | null {
+  const available = ctx.modelRegistry.getAvailable();
+  const pick = (provider: string, id: string): ModelSelection | null => {
+    const found = available.find((m) => m.provider === provider && m.id === id);
+    return found ? { provider: found.provider, modelId: found.id, displayName: found.name || found.id } : null;
+  };
+  if (settings.model) {
+    const slash = settings.model.indexOf("/");
+    const configured = slash > 0 ? pick(settings.model.slice(0, slash), settings.model.slice(slash + 1)) : null;
+    if (configured) return configured;
+    if (!quiet) ctx.ui.notify(`Verifier ${settings.model} is not available — using a roster model instead.`, "warning");
+  }
+  for (const model of models) {
+    if (results && !results.some((r) => r.model === model.modelId && r.output)) continue;
+    const selection = pick(model.provider, model.modelId);
+    if (selection) return selection;
+  }
+  return null;
+}
+
+/**
+ * Pre-run estimate of a full verification pass (`maxFindings` findings) for
+ * the review budget; null when no model could verify.
+ */
+export function estimateVerifierCost(ctx: ExtensionContext, models: ModelSelection[], settings: VerifySettings): CostEstimate | null {
+  const verifier = chooseVerifier(ctx, models, null, settings, true);
+  if (!verifier) return null;
+  const promptChars = getVerifierSystemPrompt().length + settings.maxFindings * PROMPT_CHARS_PER_FINDING;
+  return estimateModelCosts(ctx, [verifier], [promptChars], "tools")[0];
+}
+
+// ─── Prompt ───────────────────────────────────────────────────────────────────
+
+function formatSnippet(content: string, line: number): string {
+  const lines = content.split("\n");
+  const center = Math.min(Math.max(line, 1), lines.length);
+  const from = Math.max(1, center - SNIPPET_CONTEXT_LINES);
+  const to = Math.min(lines.length, center + SNIPPET_CONTEXT_LINES);
+  return lines.slice(from - 1, to)
+    .map((text, i) => `${from + i === line ? ">" : " "}${String(from + i).padStart(5)} | ${text}`)
+    .join("\n");
+}
+
+export function buildVerifyPrompt(target: ReviewTarget, findings: ConsolidatedFinding[], totalAgents: number): string {
+  const revision = target.headSha
+    ? ` The reviewed code is at commit ${target.headSha}; if the working tree differs, read files with \`git show ${target.headSha}:<path>\`.`
+    : " The reviewed code is the working tree.";
+  let prompt = `These findings come from a code review of ${target.label} (diff ${target.baseBranch}..${target.branch}).${revision}\n`
+    + `Verify each one. Snippets show the lines around the reported line (marked >); read more of the repository as needed.\n`;
+
+  findings.forEach((f, i) => {
+    prompt += `\n## Finding ${i + 1} — ${f.file}:${f.line}\n\n`;
+    prompt += `${f.severity} · ${f.category} — reported by ${f.agents.length} of ${findingReviewers(f, totalAgents)} reviewers\n`;
+    prompt += `Title: ${f.title}\nDescription: ${f.description}\n`;
+    if (f.suggestion) prompt += `Suggested fix: ${f.suggestion}\n`;
+    const content = readTargetFile(target, f.file);
+    prompt += content === null
+      ? `\n(${f.file} could not be read — it may have been deleted.)\n`
+      : `\n\`\`\`\n${formatSnippet(content, f.line)}\n\`\`\`\n`;
+  });
+  return `${prompt}\nOutput one verdict per finding id as JSON only.`;
+}
+
+// ─── Verdicts ─────────────────────────────────────────────────────────────────
+
+/** Verdicts by finding id (1-based) from the verifier's final text. */
+export function parseVerdicts(text: string): Map<number, { verdict: VerificationVerdict; justification: string }> {
+  const verdicts = new Map<number, { verdict: VerificationVerdict; justification: string }>();
+  const trimmed = text.trim();
+  const candidates = [...trimmed.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)].map((m) => m[1].trim());
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  if (start >= 0 && end > start) candidates.push(trimmed.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (!Array.isArray(parsed?.verdicts)) continue;
+      for (const v of parsed.verdicts) {
+        const id = Number(v?.id);
+        const verdict = String(v?.verdict ?? "").toLowerCase();
+        if (!Number.isInteger(id) || !VERDICTS.has(verdict)) continue;
+        verdicts.set(id, { verdict: verdict as VerificationVerdict, justification: String(v.justification || "").trim() });
+      }
+      return verdicts;
+    } catch { continue; }
+  }
+  return verdicts;
+}
+
+// ─── Run ──────────────────────────────────────────────────────────────────────
+
+export interface VerificationOutcome {
+  /** `findings` without the refuted ones; checked findings carry their verdict. */
+  findings: ConsolidatedFinding[];
+  refuted: ConsolidatedFinding[];
+  summary: VerificationSummary;
+}
+
+/** The run's live spend: the verifier reports its usage and stops when the budget is reached. */
+export interface VerifierBudget {
+  onUsage: (usage: TokenUsage) => void;
+  budgetSignal?: AbortSignal;
+}
+
+/**
+ * Run the verifier over the low-consensus findings of a finished review.
+ * Null when there is nothing to verify or no model to verify with. A failed
+ * verifier leaves every finding as it was and records the error.
+ */
+export async function verifyFindings(
+  ctx: ExtensionContext,
+  target: ReviewTarget,
+  findings: ConsolidatedFinding[],
+  models: ModelSelection[],
+  results: ReviewAgentResult[],
+  settings: VerifySettings,
+  signal: AbortSignal,
+  budget?: VerifierBudget,
+): Promise<VerificationOutcome | null> {
+  const totalAgents = models.length;
+  const candidates = selectLowConsensus(findings, totalAgents, settings.maxConsensus);
+  if (candidates.length === 0) return null;
+  const verifier = chooseVerifier(ctx, models, results, settings);
+  if (!verifier) {
+    ctx.ui.notify("No model available to verify findings — skipping verification.", "warning");
+    return null;
+  }
+
+  const checked = candidates.slice(0, settings.maxFindings);
+  const summary: VerificationSummary = {
+    verifier: verifier.displayName,
+    checked: checked.length,
+    skipped: candidates.length - checked.length,
+    durationMs: 0,
+  };
+  const promptTemp = writeTempFile("pi-review-verify-", "verifier-prompt.md", getVerifierSystemPrompt());
+  const timeoutController = new AbortController();
+  const timeoutId = setTimeout(() => timeoutController.abort(), settings.timeoutMs);
+  const runSignal = anySignal([signal, timeoutController.signal, ...(budget?.budgetSignal ? [budget.budgetSignal] : [])]);
+  const onMessage = budget ? (message: Message) => budget.onUsage(messageUsage(message)) : undefined;
+  const startedAt = Date.now();
+  try {
+    const run = await runPiAgent(target.repoCwd, [
+      "--provider", verifier.provider,
+      "--model", verifier.modelId,
+      "--tools", READ_ONLY_TOOLS,
+      "--append-system-prompt", promptTemp.filePath,
+      buildVerifyPrompt(target, checked, totalAgents),
+    ], runSignal, onMessage);
+    summary.durationMs = Date.now() - startedAt;
+    summary.usage = usageFromMessages(run.messages);
+
+    if (budget?.budgetSignal?.aborted) summary.error = "Stopped: review budget reached";
+    else if (timeoutController.signal.aborted) summary.error = `Timed out after ${(summary.durationMs / 1000).toFixed(0)}s`;
+    else if (run.exitCode !== 0) summary.error = run.stderr.slice(0, 200) || `Exit code ${run.exitCode}`;
+    else {
+      const verdicts = parseVerdicts(getFinalOutput(run.messages));
+      if (verdicts.size === 0) summary.error = "Failed to parse verifier output";
+      checked.forEach((f, i) => {
+        const v = verdicts.get(i + 1);
+        if (v) f.verification = { ...v, verifier: verifier.displayName };
+      });
+    }
+  } catch (err: any) {
+    summary.durationMs = Date.now() - startedAt;
+    summary.error = err?.message || "Unknown error";
+  } finally {
+    clearTimeout(timeoutId);
+    cleanupTempFile(promptTemp.dir, promptTemp.filePath);
+  }
+
+  return {
+    findings: findings.filter((f) => f.verification?.verdict !== "refuted"),
+    refuted: findings.filter((f) => f.verification?.verdict === "refuted"),
+    summary,
+  };
+}
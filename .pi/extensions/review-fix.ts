@@ -0,0 +1,220 @@
+/**
+ * /review-fix — Apply findings of the last review in this session.
+ *
+ * Pick findings from the latest review report shown in the session (from
+ * /parallel-review, /parallel-review-lite, /review-me or a report reopened
+ * with /review-history). The main agent applies them one at a time in the
+ * reviewed repo and reports each outcome through the `review_fix_result`
+ * tool. After each fix, `conventions.linter` and `conventions.test_command`
+ * run when `agent.execution` allows it. Edits to `agent.protected_files`
+ * are blocked while fixes run. Ends with an applied/failed summary.
+ *
+ *   /review-fix         → pick findings, then apply them
+ *   /review-fix-stop    → stop after the finding in progress
+ */
+
+import * as path from "node:path";
+import { type ExtensionAPI, type ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+import { StringEnum } from "@mariozechner/pi-ai";
+import { Type } from "@sinclair/typebox";
+import {
+  buildFixPrompt,
+  formatFixSummary,
+  isProtectedFile,
+  loadFixSettings,
+  runFixChecks,
+  type FixOutcome,
+  type FixSettings,
+} from "./review-engine/autofix";
+import { findSessionReview } from "./review-engine/history";
+import { getRepoCwd } from "./review-engine/repos";
+import { getTriage } from "./review-engine/triage";
+import type { ConsolidatedFinding, ReviewRecord } from "./review-engine/types";
+
+interface ActiveFix {
+  repoCwd: string;
+  settings: FixSettings;
+  /** Outcome reported by the agent for the finding in progress. */
+  reported: { status: "applied" | "failed"; note?: string } | null;
+  /** Resolves when the agent turn for the finding in progress ends. */
+  turnDone: (() => void) | null;
+  stopped: boolean;
+}
+
+function findingLabel(f: ConsolidatedFinding): string {
+  return `${f.severity} · ${f.file}:${f.line} — ${f.title}${f.suggestion ? " 💡" : ""}`;
+}
+
+/** Let the user choose which findings to fix; null = cancelled. */
+async function pickFindings(ctx: ExtensionCommandContext, record: ReviewRecord): Promise<number[] | null> {
+  const all = record.findings.map((_, i) => i);
+  const withSuggestion = all.filter((i) => record.findings[i].suggestion);
+  const accepted = all.filter((i) => getTriage(record, i)?.decision === "accepted");
+
+  const options: string[] = [];
+  if (accepted.length > 0) options.push(`Accepted in /review-triage (${accepted.length})`);
+  if (withSuggestion.length > 0) options.push(`All findings with a suggestion (${withSuggestion.length})`);
+  options.push("Pick findings…", "Cancel");
+  const scope = await ctx.ui.select(`${record.label} — ${record.findings.length} finding(s). Which ones to fix?`, options);
+  if (!scope || scope === "Cancel") return null;
+  if (scope.startsWith("Accepted")) return accepted;
+  if (scope.startsWith("All findings")) return withSuggestion;
+
+  const selected = new Set<number>();
+  while (true) {
+    const done = `✔ Done (${selected.size} selected)`;
+    const labels = all.map((i) => `${selected.has(i) ? "[x]" : "[ ]"} ${i + 1}. ${findingLabel(record.findings[i])}`);
+    const choice = await ctx.ui.select("Toggle findings to fix:", [done, ...labels, "Cancel"]);
+    if (!choice || choice === "Cancel") return null;
+    if (choice === done) return [...selected].sort((a, b) => a - b);
+    const index = all[labels.indexOf(choice)];
+    if (selected.has(index)) selected.delete(index);
+    else selected.add(index);
+  }
+}
+
+export default function (pi: ExtensionAPI) {
+  let active: ActiveFix | null = null;
+
+  pi.registerTool({
+    name: "review_fix_result",
+    label: "Review Fix Result",
+    description:
+      "Report the outcome of the review finding you were asked to fix by /review-fix. " +
+      "Call it once per finding: status 'applied' when the fix is in place, 'failed' with a short reason otherwise.",
+    parameters: Type.Object({
+      status: StringEnum(["applied", "failed"] as const),
+      note: Type.Optional(Type.String({ description: "Short reason (required when failed) or remark" })),
+    }),
+    async execute(_toolCallId, params) {
+      const { status, note } = params as { status: "applied" | "failed"; note?: string };
+      if (!active) {
+        return { content: [{ type: "text", text: "No /review-fix in progress — nothing to report." }], details: { recorded: false } };
+      }
+      active.reported = { status, note };
+      return { content: [{ type: "text", text: `Recorded: ${status}. Stop here; the next finding follows separately.` }], details: { recorded: true } };
+    },
+  });
+
+  // Hard stop on protected files while fixes are being applied
+  pi.on("tool_call", async (event, ctx) => {
+    if (!active || (event.toolName !== "edit" && event.toolName !== "write")) return;
+    const filePath = (event.input as { path?: string }).path;
+    // Tool paths are relative to the session cwd, protected_files to the repo
+    if (filePath && isProtectedFile(active.repoCwd, path.resolve(ctx.cwd, filePath), active.settings.protectedFiles)) {
+      return { block: true, reason: `${filePath} is listed in agent.protected_files and must not be modified.` };
+    }
+  });
+
+  pi.on("agent_end", async () => {
+    const done = active?.turnDone;
+    if (active) active.turnDone = null;
+    done?.();
+  });
+
+  pi.registerCommand("review-fix", {
+    description: "Apply picked findings of the last review in this session, one at a time",
+    handler: async (_args, ctx) => {
+      if (active) {
+        ctx.ui.notify("Fixes are already being applied. Use /review-fix-stop to stop.", "warning");
+        return;
+      }
+      const record = findSessionReview(ctx);
+      if (!record) {
+        ctx.ui.notify("No review report in this session. Run /parallel-review (or reopen one with /review-history) first.", "info");
+        return;
+      }
+      if (record.findings.length === 0) {
+        ctx.ui.notify(`${record.label} has no findings to fix.`, "info");
+        return;
+      }
+
+      const picked = await pickFindings(ctx, record);
+      if (!picked) return;
+      if (picked.length === 0) {
+        ctx.ui.notify("No findings selected.", "info");
+        return;
+      }
+
+      const repoCwd = getRepoCwd(ctx.cwd, record.repo);
+      const { stdout: branchRaw } = await pi.exec("git", ["-C", repoCwd, "rev-parse", "--abbrev-ref", "HEAD"]);
+      const branch = branchRaw.trim();
+      if (branch && branch !== record.branch) {
+        const ok = await ctx.ui.confirm(
+          "Different branch",
+          `${repoCwd} is on ${branch}, but the review was of ${record.branch}. Apply the fixes on ${branch} anyway?`,
+        );
+        if (!ok) return;
+      }
+
+      const settings = loadFixSettings(ctx.cwd);
+      const checks = [settings.linter && "linter", settings.testCommand && "tests"].filter(Boolean).join(" + ");
+      ctx.ui.notify(`🛠 Applying ${picked.length} finding(s) one at a time${checks ? ` — ${checks} after each` : ""}`, "info");
+
+      active = { repoCwd, settings, reported: null, turnDone: null, stopped: false };
+      const outcomes: FixOutcome[] = [];
+      try {
+        for (const [n, index] of picked.entries()) {
+          const finding = record.findings[index];
+          if (active.stopped) break;
+          if (isProtectedFile(repoCwd, finding.file, settings.protectedFiles)) {
+            outcomes.push({ finding, status: "skipped", note: "protected file", checks: [] });
+            continue;
+          }
+
+          ctx.ui.setStatus("review-fix", `Fixing ${n + 1}/${picked.length}: ${finding.file}:${finding.line}`);
+          active.reported = null;
+          const turn = new Promise<void>((resolve) => { active!.turnDone = resolve; });
+          pi.sendUserMessage(buildFixPrompt(record, finding, { index: n, total: picked.length }, repoCwd, settings), { deliverAs: "followUp" });
+          await turn;
+
+          const reported = active.reported as ActiveFix["reported"];
+          if (!reported) {
+            outcomes.push({ finding, status: "failed", note: "agent did not report a result", checks: [] });
+            continue;
+          }
+          if (reported.status === "failed") {
+            outcomes.push({ finding, status: "failed", note: reported.note, checks: [] });
+            continue;
+          }
+          ctx.ui.setStatus("review-fix", `Checking ${n + 1}/${picked.length}: ${finding.file}:${finding.line}`);
+          const results = await runFixChecks(pi, repoCwd, settings);
+          const failed = results.find((c) => !c.ok);
+          outcomes.push({
+            finding,
+            status: failed ? "failed" : "applied",
+            note: failed ? `${failed.name} failed` : reported.note,
+            checks: results,
+          });
+        }
+
+        const stopped = active.stopped || outcomes.length < picked.length;
+        pi.sendMessage({
+          customType: "review-fix-summary",
+          content: formatFixSummary(record, outcomes, stopped),
+          display: true,
+          details: {
+            reviewId: record.id,
+            applied: outcomes.filter((o) => o.status === "applied").length,
+            failed: outcomes.filter((o) => o.status === "failed").length,
+          },
+        });
+      } finally {
+        active = null;
+        ctx.ui.setStatus("review-fix", undefined);
+      }
+    },
+  });
+
+  pi.registerCommand("review-fix-stop", {
+    description: "Stop /review-fix after the finding in progress",
+    handler: async (_args, ctx) => {
+      if (!active) {
+        ctx.ui.notify("No fixes in progress.", "info");
+        return;
+      }
+      active.stopped = true;
+      ctx.ui.notify("Stopping after the current finding.", "warning");
+    },
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * /review-history — Browse reviews saved by /review-me, /parallel-review
+ * and /parallel-review-lite.
+ *
+ * Every finished run is stored as JSON under .pi/reviews/ (see
+ * review-engine/history.ts). This command lists them, reopens one as a
+ * rendered report, or exports it as Markdown, JSON or SARIF.
+ *
+ *   /review-history                 → all saved reviews, newest first
+ *   /review-history my-repo         → only reviews of my-repo
+ *   /review-history feature/foo     → only reviews of that branch
+ *   /review-history my-repo feature/foo
+ *
+ * /review-export writes the review shown in this session (else the newest
+ * saved one) as SARIF 2.1.0, stable JSON (see review-engine/export.ts) or
+ * Markdown:
+ *
+ *   /review-export                  → SARIF, asks for the path
+ *   /review-export json out/review.json
+ */
+
+import * as path from "node:path";
+import { type ExtensionAPI, type ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { EXPORT_EXTENSIONS, writeReviewExport, type ExportFormat } from "./review-engine/export";
+import {
+  describeReviewRecord,
+  findSessionReview,
+  listReviewRecords,
+  parseHistoryFilter,
+  renderReviewRecord,
+} from "./review-engine/history";
+import { listAvailableRepos } from "./review-engine/repos";
+import type { ReviewRecord } from "./review-engine/types";
+
+function exportRecord(ctx: ExtensionContext, record: ReviewRecord, format: ExportFormat, outPath: string): void {
+  try {
+    writeReviewExport(record, format, outPath);
+    ctx.ui.notify(`✅ Exported ${record.id} (${format}) → ${outPath}`, "info");
+  } catch (err: any) {
+    ctx.ui.notify(`Export failed: ${err?.message || "unknown error"}`, "error");
+  }
+}
+
+export default function (pi: ExtensionAPI) {
+  pi.registerCommand("review-history", {
+    description: "List, reopen or export past code reviews",
+    getArgumentCompletions: (prefix: string) => {
+      const repos = listAvailableRepos(pi.getCwd());
+      return repos.filter((r) => r.startsWith(prefix)).map((v) => ({ value: v, label: v }));
+    },
+    handler: async (args, ctx) => {
+      const allRecords = listReviewRecords(ctx.cwd);
+      if (allRecords.length === 0) {
+        ctx.ui.notify("No saved reviews yet. Run /parallel-review, /parallel-review-lite or /review-me first.", "info");
+        return;
+      }
+
+      const knownRepos = new Set([...listAvailableRepos(ctx.cwd), ...allRecords.map((r) => r.repo)]);
+      const filter = parseHistoryFilter(args, knownRepos);
+      const records = listReviewRecords(ctx.cwd, filter);
+      if (records.length === 0) {
+        const scope = [filter.repo, filter.branch].filter(Boolean).join(" / ");
+        ctx.ui.notify(`No saved reviews for ${scope}.`, "info");
+        return;
+      }
+
+      const labels = records.map(describeReviewRecord);
+      const choice = await ctx.ui.select(`Saved reviews (${records.length}):`, [...labels, "Cancel"]);
+      if (!choice || choice === "Cancel") return;
+      const record = records[labels.indexOf(choice)];
+
+      const action = await ctx.ui.select(`${record.label}`, [
+        "Reopen report",
+        "Export as Markdown",
+        "Export as JSON",
+        "Export as SARIF",
+        "Cancel",
+      ]);
+      if (!action || action === "Cancel") return;
+
+      if (action === "Reopen report") {
+        pi.sendMessage({
+          customType: "review-history-report",
+          content: renderReviewRecord(record),
+          display: true,
+          details: { reviewId: record.id, label: record.label, findings: record.findings.length },
+        });
+        return;
+      }
+
+      const format: ExportFormat = action === "Export as JSON" ? "json" : action === "Export as SARIF" ? "sarif" : "markdown";
+      const defaultPath = path.join(ctx.cwd, `${record.id}.${EXPORT_EXTENSIONS[format]}`);
+      const input = await ctx.ui.input(`Export to (empty = ${path.relative(ctx.cwd, defaultPath)}):`, defaultPath);
+      if (input === undefined) return;
+      const outPath = input.trim() ? path.resolve(ctx.cwd, input.trim()) : defaultPath;
+      exportRecord(ctx, record, format, outPath);
+    },
+  });
+  pi.registerCommand("review-export", {
+    description: "Export the last review as SARIF 2.1.0, JSON or Markdown",
+    getArgumentCompletions: (prefix: string) => {
+      return ["sarif", "json", "markdown"].filter((v) => v.startsWith(prefix)).map((v) => ({ value: v, label: v }));
+    },
+    handler: async (args, ctx) => {
+      const [formatArg, ...pathParts] = args.trim().split(/\s+/).filter(Boolean);
+      const format = (formatArg ?? "sarif").toLowerCase() as ExportFormat;
+      if (!(format in EXPORT_EXTENSIONS)) {
+        ctx.ui.notify(`Unknown format "${formatArg}". Use sarif, json or markdown.`, "warning");
+        return;
+      }
+
+      // The review shown in this session, else the newest saved one
+      const record = findSessionReview(ctx) ?? listReviewRecords(ctx.cwd)[0];
+      if (!record) {
+        ctx.ui.notify("No saved reviews yet. Run /parallel-review, /parallel-review-lite or /review-me first.", "info");
+        return;
+      }
+
+      const defaultPath = path.join(ctx.cwd, `${record.id}.${EXPORT_EXTENSIONS[format]}`);
+      let outPath = pathParts.length > 0 ? path.resolve(ctx.cwd, pathParts.join(" ")) : defaultPath;
+      if (pathParts.length === 0 && ctx.hasUI) {
+        const input = await ctx.ui.input(`Export ${record.label} to (empty = ${path.relative(ctx.cwd, defaultPath)}):`, defaultPath);
+        if (input === undefined) return;
+        if (input.trim()) outPath = path.resolve(ctx.cwd, input.trim());
+      }
+      exportRecord(ctx, record, format, outPath);
+    },
+  });
+}
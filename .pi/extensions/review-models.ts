@@ -0,0 +1,69 @@
+/**
+ * /review-models — Show which models the review commands would use, and why.
+ *
+ * The roster comes from `review.models` in project.yml when it lists any
+ * entries (weights, roles, per-model timeouts, the `lite: true` subset and
+ * fallback chains), otherwise from the built-in provider preferences in
+ * review-engine/models.ts. Either way only models with credentials
+ * configured are picked.
+ *
+ *   /review-models          → roster of /parallel-review, /parallel-review-lite and /review-me
+ *   /review-models lite     → only /parallel-review-lite
+ *
+ * With `review.personas` in project.yml, each roster also shows which
+ * specialist persona every model would review as.
+ */
+
+import { type ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { formatRosterPlan, planReviewRoster } from "./review-engine/models";
+import { assignPersonas, formatPersonaAssignment, resolveEnabledPersonas } from "./review-engine/personas";
+import {
+  PARALLEL_REVIEW_LITE_STRATEGY,
+  PARALLEL_REVIEW_STRATEGY,
+  REVIEW_ME_STRATEGY,
+} from "./review-engine/strategies";
+import type { ReviewStrategy } from "./review-engine/types";
+
+const COMMANDS: Array<{ command: string; strategy: ReviewStrategy }> = [
+  { command: "/parallel-review", strategy: PARALLEL_REVIEW_STRATEGY },
+  { command: "/parallel-review-lite", strategy: PARALLEL_REVIEW_LITE_STRATEGY },
+  { command: "/review-me", strategy: REVIEW_ME_STRATEGY },
+];
+
+export default function (pi: ExtensionAPI) {
+  pi.registerCommand("review-models", {
+    description: "Show the model roster each review command would use and why",
+    getArgumentCompletions: (prefix: string) => {
+      return ["full", "lite", "review-me"].filter((v) => v.startsWith(prefix)).map((v) => ({ value: v, label: v }));
+    },
+    handler: async (args, ctx) => {
+      const filter = args.trim();
+      const selected = COMMANDS.filter(({ command }) => {
+        if (!filter) return true;
+        if (filter === "full") return command === "/parallel-review";
+        if (filter === "lite") return command === "/parallel-review-lite";
+        return command === `/${filter.replace(/^\//, "")}`;
+      });
+      if (selected.length === 0) {
+        ctx.ui.notify(`Unknown review command "${filter}". Use full, lite or review-me.`, "warning");
+        return;
+      }
+
+      const personas = resolveEnabledPersonas(ctx.cwd);
+      let content = "## 🤖 Review models\n\n";
+      for (const { command, strategy } of selected) {
+        const plan = planReviewRoster(ctx, strategy);
+        content += formatRosterPlan(command, plan);
+        content += formatPersonaAssignment(assignPersonas(plan.models, personas));
+      }
+      content += "_Configure the roster under `review.models` in project.yml._\n";
+
+      pi.sendMessage({
+        customType: "review-models",
+        content,
+        display: true,
+        details: { commands: selected.map((c) => c.command) },
+      });
+    },
+  });
+}
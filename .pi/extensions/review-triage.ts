@@ -0,0 +1,108 @@
+/**
+ * /review-triage — Walk through the findings of the latest saved review and
+ * decide what to do with each one:
+ *
+ *   Accept          → added to a todo list handed to the agent to fix
+ *   Dismiss         → with a reason; hidden in later reviews of the branch
+ *   False positive  → hidden in later reviews of the branch
+ *
+ * Decisions are stored on the review record under .pi/reviews/ (see
+ * review-engine/triage.ts), so triage can be stopped and resumed.
+ *
+ *   /review-triage                  → latest review of any repo
+ *   /review-triage my-repo          → latest review of my-repo
+ *   /review-triage my-repo feat/x   → latest review of that branch
+ */
+
+import { type ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { listReviewRecords, parseHistoryFilter, shortSha } from "./review-engine/history";
+import { listAvailableRepos } from "./review-engine/repos";
+import { formatAcceptedTodo, getTriage, saveTriageDecision, TRIAGE_LABEL } from "./review-engine/triage";
+import type { ConsolidatedFinding } from "./review-engine/types";
+
+const ACCEPT = "✅ Accept — add to the agent's todo list";
+const DISMISS = "🙈 Dismiss (with a reason)";
+const FALSE_POSITIVE = "🚫 False positive";
+const SKIP = "⏭ Skip for now";
+const STOP = "⏹ Stop triage";
+
+function describeFinding(f: ConsolidatedFinding, position: string): string {
+  let text = `${position} · ${f.severity} · ${f.category} · ${f.agents.length} agent(s)\n`;
+  text += `${f.file}:${f.line} — ${f.title}\n\n${f.description}`;
+  if (f.suggestion) text += `\n\n💡 ${f.suggestion}`;
+  return text;
+}
+
+export default function (pi: ExtensionAPI) {
+  pi.registerCommand("review-triage", {
+    description: "Accept, dismiss or mark false positive the findings of the latest review",
+    getArgumentCompletions: (prefix: string) => {
+      const repos = listAvailableRepos(pi.getCwd());
+      return repos.filter((r) => r.startsWith(prefix)).map((v) => ({ value: v, label: v }));
+    },
+    handler: async (args, ctx) => {
+      const allRecords = listReviewRecords(ctx.cwd);
+      const knownRepos = new Set([...listAvailableRepos(ctx.cwd), ...allRecords.map((r) => r.repo)]);
+      const filter = parseHistoryFilter(args, knownRepos);
+      const record = listReviewRecords(ctx.cwd, filter)[0];
+      if (!record) {
+        ctx.ui.notify("No saved review to triage. Run /parallel-review, /parallel-review-lite or /review-me first.", "info");
+        return;
+      }
+      if (record.findings.length === 0) {
+        ctx.ui.notify(`${record.label} has no findings to triage.`, "info");
+        return;
+      }
+
+      // Resume where the last triage stopped; offer a fresh pass when everything is decided
+      let pending = record.findings.map((_, i) => i).filter((i) => !getTriage(record, i));
+      if (pending.length === 0) {
+        const again = await ctx.ui.confirm(
+          "Already triaged",
+          `All ${record.findings.length} finding(s) of ${record.label} have a decision. Go through them again?`,
+        );
+        if (!again) return;
+        pending = record.findings.map((_, i) => i);
+      }
+
+      ctx.ui.notify(`Triaging ${record.label} (${shortSha(record.headSha)}) — ${pending.length} finding(s) to go`, "info");
+
+      const accepted: number[] = [];
+      let decided = 0;
+      for (const [n, index] of pending.entries()) {
+        const finding = record.findings[index];
+        const previous = getTriage(record, index);
+        const title = describeFinding(finding, `Finding ${n + 1}/${pending.length}`)
+          + (previous ? `\n\nCurrent decision: ${TRIAGE_LABEL[previous.decision]}${previous.reason ? ` — ${previous.reason}` : ""}` : "");
+        const choice = await ctx.ui.select(title, [ACCEPT, DISMISS, FALSE_POSITIVE, SKIP, STOP]);
+        if (!choice || choice === STOP) break;
+        if (choice === SKIP) continue;
+
+        if (choice === ACCEPT) {
+          saveTriageDecision(ctx.cwd, record, index, "accepted");
+          accepted.push(index);
+        } else if (choice === DISMISS) {
+          const reason = await ctx.ui.input("Why dismiss it?", "e.g. intended behaviour, tracked in PROJ-123");
+          if (reason === undefined) continue;
+          saveTriageDecision(ctx.cwd, record, index, "dismissed", reason.trim() || undefined);
+        } else {
+          const reason = await ctx.ui.input("Anything to note? (optional)", "e.g. the value is validated upstream");
+          saveTriageDecision(ctx.cwd, record, index, "false positive", reason?.trim() || undefined);
+        }
+        decided++;
+      }
+
+      const counts = (["accepted", "dismissed", "false positive"] as const)
+        .map((d) => `${(record.triage ?? []).filter((t) => t.decision === d).length} ${d}`)
+        .join(" · ");
+      ctx.ui.notify(`Triage saved: ${decided} decision(s) this pass — ${counts} of ${record.findings.length}`, "info");
+
+      if (accepted.length === 0) return;
+      const send = await ctx.ui.confirm(
+        "Fix accepted findings?",
+        `Hand ${accepted.length} accepted finding(s) to the agent as a todo list?`,
+      );
+      if (send) pi.sendUserMessage(formatAcceptedTodo(record, accepted), { deliverAs: "followUp" });
+    },
+  });
+}
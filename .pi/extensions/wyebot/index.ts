@@ -10,6 +10,33 @@ import {
 import { join } from "path";
 import { homedir } from "os";
 import { parse as parseYaml } from "yaml";
+import {
+  deleteMemoryTopic,
+  formatMatchSnippets,
+  listMemoryFiles,
+  listMemoryTopics,
+  readMemory,
+  resolveMemoryFile,
+  upsertMemoryTopic,
+  type MemoryFile,
+  type TopicWrite,
+} from "./memory";
+import { auditMemory, DEFAULT_CHURN_THRESHOLD, formatAuditReport, type AuditedRepo } from "./memory-audit";
+import {
+  ambiguousTopicError,
+  formatMemoryHistory,
+  formatTopicHistory,
+  memoryFileAt,
+  parseTopicRef,
+  planFileRollback,
+  readMemoryHistory,
+  recordedMemoryWrite,
+  recordMemoryChange,
+  rollbackMemoryFile,
+  rollbackMemoryTopic,
+  topicHistory,
+} from "./memory-history";
+import { matchingLineIndices, searchMemory } from "./memory-index";
 
 // ─── Helpers: Project config ───
 
@@ -431,109 +458,242 @@ export default function (pi: ExtensionAPI) {
     name: "search_memory",
     label: "Search Memory",
     description:
-      "Search across ALL memory files (DIRECTIVES, ARCHITECTURE, and all repo files) for a keyword or phrase. " +
-      "Returns matching lines with context. Useful for finding how other repos handle similar problems " +
+      "Search across ALL memory files (DIRECTIVES, ARCHITECTURE, and all repo files) for topics about a subject. " +
+      "Returns the best-matching ### topics ranked by relevance, with scores and the matching lines in context. " +
+      "Several words are matched independently, and close spellings or word prefixes match too (\"auth\" finds " +
+      "\"authentication\"). Useful for finding how other repos handle similar problems " +
       "without loading each repo's memory individually.",
     parameters: Type.Object({
       query: Type.String({
-        description: "Search term or phrase (case-insensitive)",
+        description: "Words or a phrase describing what to find (case-insensitive)",
       }),
+      limit: Type.Optional(
+        Type.Number({
+          description: "Maximum number of topics to return (default: 5)",
+        })
+      ),
       context_lines: Type.Optional(
         Type.Number({
           description:
-            "Number of context lines around each match (default: 2)",
+            "Number of context lines around each matching line (default: 2)",
         })
       ),
     }),
     async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-      const { query, context_lines = 2 } = params as {
+      const { query, limit = 5, context_lines = 2 } = params as {
         query: string;
+        limit?: number;
         context_lines?: number;
       };
 
-      const memoryDir = join(ctx.cwd, "memory");
-      const files = [
-        { path: "DIRECTIVES.md", label: "DIRECTIVES" },
-        { path: "ARCHITECTURE.md", label: "ARCHITECTURE" },
-      ];
-
-      const reposDir = join(memoryDir, "repos");
-      if (existsSync(reposDir)) {
-        for (const f of readdirSync(reposDir)) {
-          if (f.endsWith(".md")) {
-            files.push({
-              path: join("repos", f),
-              label: f.replace(".md", ""),
-            });
-          }
-        }
+      const search = searchMemory(ctx.cwd, query);
+      const hits = search.hits.slice(0, Math.max(1, Math.floor(limit)));
+      if (hits.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No topics found for "${query}" across ${search.topics} memory topics.`,
+            },
+          ],
+          details: { query, matches: 0 },
+        };
       }
 
-      const queryLower = query.toLowerCase();
-      const results: string[] = [];
-      let totalMatches = 0;
+      const results = hits.map((hit, i) => {
+        const { file, parent, heading, content } = hit.section;
+        const path = [file.label, parent, heading].filter(Boolean).join(" › ");
+        const snippets = formatMatchSnippets(
+          { file, lines: content.split("\n"), matchIndices: matchingLineIndices(hit) },
+          context_lines
+        );
+        return (
+          `### ${i + 1}. ${path} — score ${hit.score.toFixed(2)}\n` +
+          `Matched: ${hit.matchedQueryTerms.join(", ")}\n\n${snippets.join("\n...\n")}`
+        );
+      });
 
-      for (const file of files) {
-        const content = readMemoryFile(ctx.cwd, join("memory", file.path));
-        if (!content) continue;
+      const more = search.hits.length > hits.length ? ` (showing the top ${hits.length})` : "";
+      const header = `Found ${search.hits.length} topic${search.hits.length > 1 ? "s" : ""} for "${query}"${more}:\n\n`;
+      return {
+        content: [{ type: "text", text: header + results.join("\n\n---\n\n") }],
+        details: {
+          query,
+          matches: search.hits.length,
+          topics: hits.map((h) => ({ file: h.section.file.path, topic: h.section.heading, score: h.score })),
+        },
+      };
+    },
+  });
 
-        const lines = content.split("\n");
-        const matchIndices: number[] = [];
+  // ─── Tools: memory topics ───
+  const memoryFileParam = Type.String({
+    description:
+      'DIRECTIVES, ARCHITECTURE, or a repo name for memory/repos/<repo>.md (e.g. "my-backend")',
+  });
 
-        for (let i = 0; i < lines.length; i++) {
-          if (lines[i].toLowerCase().includes(queryLower)) {
-            matchIndices.push(i);
-          }
-        }
+  const writeVerbs: Record<TopicWrite["action"], string> = {
+    created: "Created",
+    replaced: "Replaced",
+    appended: "Appended to",
+    deleted: "Deleted",
+  };
+  const describeWrite = (write: TopicWrite) =>
+    `${writeVerbs[write.action]} topic "${write.topic}" in memory/${write.file.path}` +
+    (write.section ? ` (section "${write.section}")` : "") +
+    ".";
 
-        if (matchIndices.length === 0) continue;
-        totalMatches += matchIndices.length;
-
-        const snippets: string[] = [];
-        const ranges: Array<[number, number]> = [];
-        for (const idx of matchIndices) {
-          const start = Math.max(0, idx - context_lines);
-          const end = Math.min(lines.length - 1, idx + context_lines);
-          if (ranges.length > 0 && start <= ranges[ranges.length - 1][1] + 1) {
-            ranges[ranges.length - 1][1] = end;
-          } else {
-            ranges.push([start, end]);
-          }
-        }
+  pi.registerTool({
+    name: "memory_upsert",
+    label: "Memory Upsert",
+    description:
+      "Create or update one ### topic in a memory file (DIRECTIVES, ARCHITECTURE or a repo file). " +
+      "An existing topic with the same heading is replaced (or added to with append: true); " +
+      "a new topic goes under the given section, by default the file's Learned/Discovered Patterns. " +
+      "The rest of the file is left untouched — content may not contain #, ## or ### headings.",
+    parameters: Type.Object({
+      file: memoryFileParam,
+      topic: Type.String({
+        description: 'Topic heading without ### (e.g. "Authentication")',
+      }),
+      content: Type.String({
+        description: "Markdown body of the topic — the whole topic unless append is set",
+      }),
+      section: Type.Optional(
+        Type.String({
+          description:
+            'The ## section the topic belongs to (e.g. "Testing Notes"); needed only for new topics outside the patterns section or when two sections share the topic name',
+        })
+      ),
+      append: Type.Optional(
+        Type.Boolean({
+          description: "Add content at the end of the existing topic instead of replacing it (default: false)",
+        })
+      ),
+    }),
+    async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+      const { file, topic, content, section, append } = params as {
+        file: string;
+        topic: string;
+        content: string;
+        section?: string;
+        append?: boolean;
+      };
+      const memoryFile = resolveMemoryFile(ctx.cwd, file, getConfiguredRepoNames(ctx.cwd));
+      const result =
+        "error" in memoryFile
+          ? memoryFile
+          : recordedMemoryWrite(
+              ctx.cwd,
+              memoryFile,
+              { sessionId: ctx.sessionManager.getSessionId(), source: "memory_upsert" },
+              () => upsertMemoryTopic(ctx.cwd, memoryFile, topic, content, { section, append })
+            );
+      if ("error" in result) {
+        return {
+          content: [{ type: "text", text: result.error }],
+          details: { file, topic, error: true },
+        };
+      }
+      return {
+        content: [{ type: "text", text: describeWrite(result) }],
+        details: { file: result.file.path, section: result.section, topic: result.topic, action: result.action },
+      };
+    },
+  });
 
-        for (const [start, end] of ranges) {
-          const snippet = lines
-            .slice(start, end + 1)
-            .map((line, i) => {
-              const lineNum = start + i;
-              const isMatch = matchIndices.includes(lineNum);
-              return `${isMatch ? ">>>" : "   "} ${line}`;
-            })
-            .join("\n");
-          snippets.push(snippet);
+  pi.registerTool({
+    name: "memory_delete_topic",
+    label: "Memory Delete Topic",
+    description:
+      "Remove one ### topic and its content from a memory file. Use it for knowledge that is wrong or obsolete.",
+    parameters: Type.Object({
+      file: memoryFileParam,
+      topic: Type.String({ description: "Topic heading without ###" }),
+      section: Type.Optional(
+        Type.String({
+          description: "The ## section of the topic, when two sections share the topic name",
+        })
+      ),
+    }),
+    async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+      const { file, topic, section } = params as {
+        file: string;
+        topic: string;
+        section?: string;
+      };
+      const memoryFile = resolveMemoryFile(ctx.cwd, file);
+      const result =
+        "error" in memoryFile
+          ? memoryFile
+          : recordedMemoryWrite(
+              ctx.cwd,
+              memoryFile,
+              { sessionId: ctx.sessionManager.getSessionId(), source: "memory_delete_topic" },
+              () => deleteMemoryTopic(ctx.cwd, memoryFile, topic, section)
+            );
+      if ("error" in result) {
+        return {
+          content: [{ type: "text", text: result.error }],
+          details: { file, topic, error: true },
+        };
+      }
+      return {
+        content: [{ type: "text", text: describeWrite(result) }],
+        details: { file: result.file.path, section: result.section, topic: result.topic, action: result.action },
+      };
+    },
+  });
+
+  pi.registerTool({
+    name: "memory_list_topics",
+    label: "Memory List Topics",
+    description:
+      "List the ## sections and ### topics of one memory file, or of all of them. " +
+      "Call it before memory_upsert to find the topic a learning belongs to.",
+    parameters: Type.Object({
+      file: Type.Optional(memoryFileParam),
+    }),
+    async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+      const { file } = params as { file?: string };
+      let files = listMemoryFiles(ctx.cwd);
+      if (file) {
+        const memoryFile = resolveMemoryFile(ctx.cwd, file);
+        if ("error" in memoryFile) {
+          return {
+            content: [{ type: "text", text: memoryFile.error }],
+            details: { file, error: true },
+          };
         }
+        files = [memoryFile];
+      }
 
-        results.push(
-          `### ${file.label} (${matchIndices.length} match${matchIndices.length > 1 ? "es" : ""})\n\n${snippets.join("\n...\n")}`
-        );
+      const results: string[] = [];
+      let topicCount = 0;
+      for (const memoryFile of files) {
+        const sections = listMemoryTopics(ctx.cwd, memoryFile);
+        if (!sections) continue;
+        const lines = [`### ${memoryFile.label} (memory/${memoryFile.path})`];
+        for (const section of sections) {
+          lines.push(section.heading === null ? "- (top of file)" : `- ## ${section.heading}`);
+          for (const topic of section.topics) {
+            topicCount++;
+            const size = topic.placeholder ? "placeholder" : `${topic.lines} line${topic.lines === 1 ? "" : "s"}`;
+            lines.push(`  - ### ${topic.heading} (${size})`);
+          }
+        }
+        results.push(lines.join("\n"));
       }
 
       if (results.length === 0) {
         return {
-          content: [
-            {
-              type: "text",
-              text: `No matches found for "${query}" across ${files.length} memory files.`,
-            },
-          ],
-          details: { query, matches: 0 },
+          content: [{ type: "text", text: file ? `memory/${files[0].path} does not exist yet.` : "No memory files yet. Run /onboard." }],
+          details: { files: 0, topics: 0 },
         };
       }
-
-      const header = `Found ${totalMatches} match${totalMatches > 1 ? "es" : ""} for "${query}" across ${results.length} file${results.length > 1 ? "s" : ""}:\n\n`;
       return {
-        content: [{ type: "text", text: header + results.join("\n\n---\n\n") }],
-        details: { query, matches: totalMatches, files: results.length },
+        content: [{ type: "text", text: results.join("\n\n") }],
+        details: { files: results.length, topics: topicCount },
       };
     },
   });
@@ -759,13 +919,48 @@ export default function (pi: ExtensionAPI) {
         "You've made code changes during this session. Before finishing, check if you learned " +
           "something new about the codebase (new patterns, conventions, gotchas, or architecture). " +
           "If so, update the relevant memory files (memory/DIRECTIVES.md, memory/ARCHITECTURE.md, " +
-          "or memory/repos/<repo>.md) using topic-based upsert — find the matching ### topic and " +
-          "update in-place. If nothing new was learned, just say so briefly.",
+          "or memory/repos/<repo>.md) with the memory tools: `memory_list_topics` to find the matching " +
+          "### topic, then `memory_upsert` to update it in place (or add a new topic only if none fits). " +
+          "If nothing new was learned, just say so briefly.",
         { deliverAs: "followUp" }
       );
     }
   });
 
+  // ─── Memory history ───
+  // The memory tools record their own writes; write/edit calls on memory
+  // files are recorded here, from the file as it was when the call started.
+  // When several calls in one turn touch the same file, each later one starts
+  // from what the previous one left, not from the file before the turn.
+  const pendingMemoryEdits = new Map<string, { file: MemoryFile; before: string | null }>();
+  const lastMemoryAfter = new Map<string, string | null>();
+
+  pi.on("tool_call", async (event, ctx) => {
+    if (event.toolName !== "write" && event.toolName !== "edit") return;
+    const file = memoryFileAt(ctx.cwd, String(event.input.path ?? ""));
+    if (file) pendingMemoryEdits.set(event.toolCallId, { file, before: readMemory(ctx.cwd, file) });
+  });
+
+  pi.on("tool_result", async (event, ctx) => {
+    const pending = pendingMemoryEdits.get(event.toolCallId);
+    if (!pending) return;
+    pendingMemoryEdits.delete(event.toolCallId);
+    const path = pending.file.path;
+    const before = lastMemoryAfter.has(path) ? lastMemoryAfter.get(path)! : pending.before;
+    const after = event.isError ? before : readMemory(ctx.cwd, pending.file);
+    const morePending = [...pendingMemoryEdits.values()].some((p) => p.file.path === path);
+    if (morePending) lastMemoryAfter.set(path, after);
+    else lastMemoryAfter.delete(path);
+    if (event.isError) return;
+    recordMemoryChange(ctx.cwd, {
+      sessionId: ctx.sessionManager.getSessionId(),
+      source: event.toolName === "write" ? "write" : "edit",
+      file: path,
+      before,
+      after,
+    });
+  });
+
   // ─── Compaction recovery ───
   pi.on("session_compact", async (_event, ctx) => {
     pi.sendMessage(
@@ -777,7 +972,7 @@ export default function (pi: ExtensionAPI) {
           "1. Review the compaction summary above to understand what was accomplished.\n" +
           "2. If you were working on a specific repo, call `load_repo_context` to reload its memory.\n" +
           "3. If significant work was completed before compaction, update the relevant memory files " +
-          "with any new learnings (use topic-based upsert — find the matching `###` topic and update in-place).",
+          "with any new learnings (`memory_list_topics` to find the matching `###` topic, then `memory_upsert`).",
         display: true,
       },
       { deliverAs: "nextTurn" }
@@ -1491,6 +1686,167 @@ export default function (pi: ExtensionAPI) {
     },
   });
 
+  pi.registerCommand("memory-audit", {
+    description:
+      "Check memory for dead code references, stale topics and contradictions with project.yml: /memory-audit [repo] [--churn N] [--fix]",
+    handler: async (args, ctx) => {
+      let rest = args || "";
+      const fix = /(^|\s)--fix(\s|$)/.test(rest);
+      rest = rest.replace(/(^|\s)--fix(?=\s|$)/, " ");
+      const churnMatch = rest.match(/(?:^|\s)--churn[= ](\d+)/);
+      rest = rest.replace(/(?:^|\s)--churn[= ]\d+/, " ");
+      const churnThreshold = churnMatch ? Number(churnMatch[1]) : DEFAULT_CHURN_THRESHOLD;
+      const repoArg = rest.trim();
+
+      // Repos are checked in their clones under the repos path
+      const reposPath = getReposPath(ctx.cwd);
+      const project = loadProjectConfig(ctx.cwd);
+      const repos: AuditedRepo[] = getConfiguredRepoNames(ctx.cwd).map((name) => {
+        const configuredPath = project?.repos?.find((r) => r.name === name)?.path;
+        const candidates = [join(reposPath, name), ...(configuredPath ? [join(ctx.cwd, configuredPath)] : [])];
+        return { name, dir: candidates.find((dir) => existsSync(join(dir, ".git"))) ?? null };
+      });
+
+      let files = listMemoryFiles(ctx.cwd);
+      if (repoArg) {
+        const file = resolveMemoryFile(ctx.cwd, repoArg, getConfiguredRepoNames(ctx.cwd));
+        if ("error" in file) {
+          ctx.ui.notify(file.error, "error");
+          return;
+        }
+        files = [file];
+      }
+      if (files.every((f) => !existsSync(join(ctx.cwd, "memory", f.path)))) {
+        ctx.ui.notify("No memory files to audit. Run /onboard first.", "warning");
+        return;
+      }
+
+      ctx.ui.setStatus("memory-audit", "Auditing memory...");
+      let report;
+      try {
+        report = auditMemory(ctx.cwd, repos, project?.conventions ?? {}, { files, churnThreshold });
+      } finally {
+        ctx.ui.setStatus("memory-audit", undefined);
+      }
+      const text = formatAuditReport(report);
+
+      if (fix && report.findings.length > 0) {
+        pi.sendUserMessage(
+          `${text}\n\nThis is a memory audit. For each finding, check the repo (at \`${reposPath}/<repo-name>\`) ` +
+            "to see what is true now: find where a dead reference moved or what replaced it, re-read the files behind " +
+            "a stale topic, and decide which side of a contradiction is right. Propose the memory changes, then apply " +
+            "them with `memory_upsert` (or `memory_delete_topic` for topics that no longer apply). If project.yml " +
+            "itself looks wrong, say so instead of editing it. Do not change any code.",
+          { deliverAs: "followUp" }
+        );
+        return;
+      }
+      pi.sendMessage({
+        customType: "wyebot-memory-audit",
+        content: text,
+        display: true,
+        details: { topics: report.topics, refsChecked: report.refsChecked, findings: report.findings.length },
+      });
+    },
+  });
+
+  pi.registerCommand("memory-history", {
+    description: "Show recorded memory changes: /memory-history [file] [[section ›] topic]",
+    handler: async (args, ctx) => {
+      const [fileArg, ...topicWords] = (args || "").trim().split(/\s+/).filter(Boolean);
+      const topic = topicWords.join(" ");
+      if (!fileArg) {
+        pi.sendMessage({
+          customType: "wyebot-memory-history",
+          content: formatMemoryHistory(readMemoryHistory(ctx.cwd), 20),
+          display: true,
+        });
+        return;
+      }
+      const file = resolveMemoryFile(ctx.cwd, fileArg, getConfiguredRepoNames(ctx.cwd));
+      if ("error" in file) {
+        ctx.ui.notify(file.error, "error");
+        return;
+      }
+      const changes = readMemoryHistory(ctx.cwd, file);
+      if (!topic) {
+        pi.sendMessage({
+          customType: "wyebot-memory-history",
+          content: formatMemoryHistory(changes, 20),
+          display: true,
+        });
+        return;
+      }
+      const ref = parseTopicRef(topic);
+      const history = topicHistory(changes, ref.topic, ref.section);
+      const ambiguous = ambiguousTopicError(history, ref.topic);
+      if (ambiguous) {
+        ctx.ui.notify(ambiguous, "warning");
+        return;
+      }
+      pi.sendMessage({
+        customType: "wyebot-memory-history",
+        content: formatTopicHistory(file, ref.topic, history),
+        display: true,
+      });
+    },
+  });
+
+  pi.registerCommand("memory-rollback", {
+    description:
+      "Undo a memory change, for one topic or the whole file: /memory-rollback <file> [[section ›] topic] [--to <change id>]",
+    handler: async (args, ctx) => {
+      let rest = args || "";
+      const toMatch = rest.match(/(?:^|\s)--to[= ](\S+)/);
+      rest = rest.replace(/(?:^|\s)--to[= ]\S+/, " ");
+      const [fileArg, ...topicWords] = rest.trim().split(/\s+/).filter(Boolean);
+      const topic = topicWords.join(" ");
+      if (!fileArg) {
+        ctx.ui.notify("Usage: /memory-rollback <file> [topic] [--to <change id>] — see /memory-history for ids", "warning");
+        return;
+      }
+      const file = resolveMemoryFile(ctx.cwd, fileArg, getConfiguredRepoNames(ctx.cwd));
+      if ("error" in file) {
+        ctx.ui.notify(file.error, "error");
+        return;
+      }
+      const sessionId = ctx.sessionManager.getSessionId();
+
+      if (topic) {
+        const ref = parseTopicRef(topic);
+        const result = rollbackMemoryTopic(ctx.cwd, file, ref.topic, { id: toMatch?.[1], section: ref.section, sessionId });
+        if ("error" in result) {
+          ctx.ui.notify(result.error, "error");
+          return;
+        }
+        const verb = result.action === "deleted" ? "Removed" : "Restored";
+        ctx.ui.notify(
+          `↩️ ${verb} "${result.topic}" in memory/${file.path} as it was before change ${result.target.id} (${result.target.at.slice(0, 16).replace("T", " ")})`,
+          "info"
+        );
+        return;
+      }
+
+      const plan = planFileRollback(ctx.cwd, file, toMatch?.[1]);
+      if ("error" in plan) {
+        ctx.ui.notify(plan.error, "error");
+        return;
+      }
+      const later = plan.discarded > 0 ? ` This also undoes ${plan.discarded} later change(s).` : "";
+      const ok = await ctx.ui.confirm(
+        "Roll back memory file",
+        `Restore memory/${file.path} as it was before change ${plan.target.id} (${plan.target.source}, ${plan.target.at.slice(0, 16).replace("T", " ")})?${later}`
+      );
+      if (!ok) return;
+      const error = rollbackMemoryFile(ctx.cwd, file, plan, sessionId);
+      if (error) {
+        ctx.ui.notify(error, "error");
+        return;
+      }
+      ctx.ui.notify(`↩️ memory/${file.path} restored as it was before change ${plan.target.id}`, "info");
+    },
+  });
+
   pi.registerCommand("help", {
     description: "Show available commands and skills",
     handler: async (_args, ctx) => {
@@ -1498,55 +1854,139 @@ export default function (pi: ExtensionAPI) {
         {
           cmd: "/ticket [ID or description]",
           desc: "Work on a ticket — plan, implement, test, QA",
+          group: "development",
         },
         {
-          cmd: "/parallel-review [repo | PR]",
+          cmd: "/parallel-review [repo | PR] [--personas]",
           desc: "Multi-model parallel code review (all models)",
+          group: "development",
         },
         {
           cmd: "/parallel-review-lite [repo | PR]",
           desc: "Multi-model parallel code review (max 3 models, faster)",
+          group: "development",
+        },
+        {
+          cmd: "/review-ci --repo R --base B --head H",
+          desc: "Headless parallel review for CI (exit code gates merges)",
+          group: "development",
         },
         {
           cmd: "/pr-desc [repo]",
           desc: "Generate a PR description from your branch diff",
+          group: "development",
         },
         {
           cmd: "/qa-guide [ticket or PR]",
           desc: "Generate step-by-step QA testing guide from ticket/PR",
+          group: "development",
         },
         {
           cmd: "/flaky-test [test path]",
           desc: "Diagnose and fix intermittent test failures",
+          group: "development",
         },
         {
           cmd: "/rebase [branch | #PR | repo]",
           desc: "PR-aware interactive rebase with conflict resolution",
+          group: "development",
         },
         {
           cmd: "/learn [repo]",
           desc: "Review recent changes and update memory files",
+          group: "reporting",
+        },
+        {
+          cmd: "/recap",
+          desc: "Summarize recent work sessions",
+          group: "reporting",
+        },
+        {
+          cmd: "/review-history [repo] [branch]",
+          desc: "List, reopen or export past code reviews",
+          group: "reporting",
+        },
+        {
+          cmd: "/review-triage [repo] [branch]",
+          desc: "Accept, dismiss or mark false positive review findings",
+          group: "reporting",
+        },
+        {
+          cmd: "/review-fix",
+          desc: "Apply picked findings of the last review, one at a time",
+          group: "reporting",
+        },
+        {
+          cmd: "/review-export [sarif|json|markdown] [path]",
+          desc: "Export the last review for code-scanning tools",
+          group: "reporting",
+        },
+        {
+          cmd: "/review-models [full|lite|review-me]",
+          desc: "Show the review model roster and why",
+          group: "reporting",
+        },
+        { cmd: "/memory", desc: "Show memory files status", group: "memory" },
+        {
+          cmd: "/memory-audit [repo] [--churn N] [--fix]",
+          desc: "Find dead references, stale topics and convention conflicts",
+          group: "memory",
+        },
+        {
+          cmd: "/memory-history [file] [topic]",
+          desc: "Show recorded memory changes, per file or topic",
+          group: "memory",
+        },
+        {
+          cmd: "/memory-rollback <file> [topic] [--to id]",
+          desc: "Undo a memory change for one topic or a whole file",
+          group: "memory",
         },
-        { cmd: "/recap", desc: "Summarize recent work sessions" },
-        { cmd: "/memory", desc: "Show memory files status" },
         {
           cmd: "/onboard",
           desc: "Scan repos, detect stack, configure the agent",
+          group: "memory",
         },
         {
           cmd: "/setup",
           desc: "Initial setup wizard (provider, auth, services)",
+          group: "memory",
+        },
+        {
+          cmd: "/change-provider",
+          desc: "Switch AI provider and model",
+          group: "configuration",
+        },
+        {
+          cmd: "/jira-login",
+          desc: "Configure Jira authentication",
+          group: "configuration",
+        },
+        {
+          cmd: "/jira-logout",
+          desc: "Remove stored Jira credentials",
+          group: "configuration",
+        },
+        {
+          cmd: "/github-login",
+          desc: "Setup GitHub CLI authentication",
+          group: "configuration",
+        },
+        {
+          cmd: "/github-logout",
+          desc: "Logout from GitHub CLI",
+          group: "configuration",
         },
-        { cmd: "/change-provider", desc: "Switch AI provider and model" },
-        { cmd: "/jira-login", desc: "Configure Jira authentication" },
-        { cmd: "/jira-logout", desc: "Remove stored Jira credentials" },
-        { cmd: "/github-login", desc: "Setup GitHub CLI authentication" },
-        { cmd: "/github-logout", desc: "Logout from GitHub CLI" },
         {
           cmd: "/browser-setup",
           desc: "Install Playwright for browser-based QA",
+          group: "configuration",
+        },
+        {
+          cmd: "/browser-reset",
+          desc: "Reset headless browser session",
+          group: "configuration",
         },
-        { cmd: "/browser-reset", desc: "Reset headless browser session" },
       ];
 
       const maxCmd = Math.max(...commands.map((c) => c.cmd.length));
@@ -1554,25 +1994,22 @@ export default function (pi: ExtensionAPI) {
       let output =
         "╭─ wyebot ─ Available Commands ─────────────────────────────────╮\n│\n";
 
-      output += "│  🔧 Development\n";
-      for (const c of commands.slice(0, 7)) {
-        output += `│    ${c.cmd.padEnd(maxCmd + 2)}${c.desc}\n`;
-      }
-
-      output += "│\n│  📊 Reporting\n";
-      for (const c of commands.slice(7, 9)) {
-        output += `│    ${c.cmd.padEnd(maxCmd + 2)}${c.desc}\n`;
-      }
-
-      output += "│\n│  🧠 Memory & Setup\n";
-      for (const c of commands.slice(9, 12)) {
-        output += `│    ${c.cmd.padEnd(maxCmd + 2)}${c.desc}\n`;
-      }
-
-      output += "│\n│  ⚙️  Configuration\n";
-      for (const c of commands.slice(12)) {
-        output += `│    ${c.cmd.padEnd(maxCmd + 2)}${c.desc}\n`;
-      }
+      const groups = [
+        { id: "development", title: "🔧 Development" },
+        { id: "reporting", title: "📊 Reporting" },
+        { id: "memory", title: "🧠 Memory & Setup" },
+        { id: "configuration", title: "⚙️  Configuration" },
+      ];
+      output += groups
+        .map(
+          (g) =>
+            `│  ${g.title}\n` +
+            commands
+              .filter((c) => c.group === g.id)
+              .map((c) => `│    ${c.cmd.padEnd(maxCmd + 2)}${c.desc}\n`)
+              .join("")
+        )
+        .join("│\n");
 
       output +=
         "│\n╰───────────────────────────────────────────────────────────────╯\n";
@@ -0,0 +1,435 @@
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { listMemoryFiles, readMemory, splitMemorySections, type MemoryFile, type MemorySection } from "./memory";
+
+// ─── Memory audit ───
+//
+// Memory goes stale quietly: files move, classes get renamed, the test command
+// changes. /memory-audit pulls the code references out of every topic (paths,
+// backticked identifiers, commands) and checks them against the repos, flags
+// topics whose files saw many commits since the topic was last touched, and
+// compares what topics say with project.yml `conventions`.
+
+export const DEFAULT_CHURN_THRESHOLD = 20;
+
+const GIT_TIMEOUT_MS = 15_000;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+/** Identifiers per `git grep` call. */
+const GREP_BATCH = 50;
+
+const FILE_EXTENSIONS = new Set([
+  "rb", "ts", "tsx", "js", "jsx", "mjs", "cjs", "py", "go", "rs", "java", "kt", "swift", "php", "cs", "ex", "exs",
+  "erb", "haml", "slim", "vue", "svelte", "css", "scss", "sql", "sh", "yml", "yaml", "json", "toml", "md", "lock",
+  "env", "html", "graphql", "proto", "tf", "rake", "gemspec", "xml", "gradle",
+]);
+
+const COMMAND_PREFIX = /^(?:(?:npm|npx|yarn|pnpm|bun|make|bundle|rails|rake|python3?|pytest|go|cargo|mix|composer|php)\s|\.\/|bin\/)/;
+
+const TEST_RUNNERS = [
+  "rspec", "minitest", "rails test", "jest", "vitest", "mocha", "ava", "playwright test", "cypress", "pytest",
+  "unittest", "go test", "cargo test", "phpunit", "mix test", "npm test", "yarn test", "pnpm test", "bun test",
+];
+const LINTERS = [
+  "rubocop", "standardrb", "eslint", "biome", "oxlint", "ruff", "flake8", "pylint", "black", "golangci-lint", "clippy",
+  "stylelint", "phpcs", "credo",
+];
+
+export interface CodeRef {
+  kind: "path" | "identifier" | "command";
+  text: string;
+}
+
+export interface AuditedRepo {
+  name: string;
+  /** Local clone; null when it is not checked out under the repos path. */
+  dir: string | null;
+}
+
+export interface AuditConventions {
+  test_command?: string;
+  linter?: string;
+  merge_strategy?: string;
+  commit_format?: string;
+  pr_template?: string;
+}
+
+export interface TopicFindings {
+  section: MemorySection;
+  dead: Array<{ ref: CodeRef; repos: string[] }>;
+  stale?: { updatedAt: Date; commits: number; files: string[] };
+  contradictions: string[];
+}
+
+export interface MemoryAuditReport {
+  topics: number;
+  refsChecked: number;
+  findings: TopicFindings[];
+  /** Repos the references were checked in, and configured repos with no local clone. */
+  repos: string[];
+  missingRepos: string[];
+  churnThreshold: number;
+}
+
+// ─── References ───
+
+function classifyRef(span: string): CodeRef | null {
+  const text = span.trim().replace(/[.,;:]+$/, "");
+  if (!text || /^https?:\/\//.test(text) || text.includes("://")) return null;
+  if (COMMAND_PREFIX.test(text)) return { kind: "command", text };
+  if (!/\s/.test(text)) {
+    const path = text.replace(/^\.\//, "").replace(/:\d+(?:-\d+)?$/, "");
+    const extension = path.match(/\.(\w+)$/)?.[1]?.toLowerCase();
+    if (!path.includes("*") && (path.includes("/") || (extension && FILE_EXTENSIONS.has(extension)))) {
+      return /^[\w@.\-/]+$/.test(path) ? { kind: "path", text: path } : null;
+    }
+    // Foo, FooBar, foo_bar, Foo::Bar, foo.bar, Foo#bar, foo() — but not plain words
+    const identifier = /^[A-Za-z_$][\w$]*(?:(?:::|\.|#)[A-Za-z_$][\w$]*[?!]?)*(?:\(\))?$/;
+    const codeLike = /[a-z][A-Z]|_|::|#|\(\)|^[A-Z][a-z]+[A-Z]|\.[a-z]/;
+    if (identifier.test(text) && codeLike.test(text) && text.replace(/\W/g, "").length >= 4) {
+      return { kind: "identifier", text };
+    }
+  }
+  return null;
+}
+
+/** Paths, identifiers and commands a topic mentions: backticked spans, plus bare paths with an extension. */
+export function extractCodeRefs(content: string): CodeRef[] {
+  const text = content.replace(/^```[\s\S]*?^```/gm, "");
+  const refs = new Map<string, CodeRef>();
+  const add = (ref: CodeRef | null) => {
+    if (ref) refs.set(`${ref.kind}:${ref.text}`, ref);
+  };
+  for (const match of text.matchAll(/`([^`\n]+)`/g)) add(classifyRef(match[1]));
+  const prose = text.replace(/`[^`\n]+`/g, " ").replace(/\bhttps?:\/\/\S+/g, " ");
+  for (const match of prose.matchAll(/(?<![\w/.@-])((?:[\w.-]+\/)+[\w.-]+\.[A-Za-z]{1,8})(?![\w/])/g)) {
+    add(classifyRef(match[1]));
+  }
+  return [...refs.values()];
+}
+
+/** The name to grep for: `Foo::Bar#baz()` → "baz". */
+function identifierName(text: string): string {
+  return text
+    .replace(/\(\)$/, "")
+    .split(/::|\.|#/)
+    .pop()!
+    .replace(/[?!]$/, "");
+}
+
+// ─── Repo checks ───
+
+interface RepoIndex {
+  name: string;
+  dir: string;
+  files: string[];
+  fileSet: Set<string>;
+  dirSet: Set<string>;
+  scripts: Set<string>;
+  makeTargets: Set<string>;
+  foundIdentifiers: Map<string, boolean>;
+}
+
+function git(dir: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", ["-C", dir, ...args], {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: GIT_MAX_BUFFER,
+    });
+  } catch {
+    return null;
+  }
+}
+
+function indexRepo(repo: AuditedRepo & { dir: string }): RepoIndex {
+  const files = (git(repo.dir, ["ls-files"]) ?? "").split("\n").filter(Boolean);
+  const dirSet = new Set<string>();
+  for (const file of files) {
+    const parts = file.split("/");
+    for (let i = 1; i < parts.length; i++) dirSet.add(parts.slice(0, i).join("/"));
+  }
+  let scripts = new Set<string>();
+  try {
+    scripts = new Set(Object.keys(JSON.parse(readFileSync(join(repo.dir, "package.json"), "utf-8")).scripts ?? {}));
+  } catch {}
+  let makeTargets = new Set<string>();
+  try {
+    const makefile = readFileSync(join(repo.dir, "Makefile"), "utf-8");
+    makeTargets = new Set(Array.from(makefile.matchAll(/^([\w.-]+)\s*:(?!=)/gm), (m) => m[1]));
+  } catch {}
+  return {
+    name: repo.name,
+    dir: repo.dir,
+    files,
+    fileSet: new Set(files),
+    dirSet,
+    scripts,
+    makeTargets,
+    foundIdentifiers: new Map(),
+  };
+}
+
+/**
+ * Repo-root paths `path` stands for: itself as a file or directory, or every
+ * file or directory it names relative to some subdirectory (`models/user.rb`
+ * for `app/models/user.rb`). Empty when nothing matches.
+ */
+function resolvePaths(index: RepoIndex, path: string): string[] {
+  const clean = path.replace(/^\.\//, "").replace(/\/+$/, "");
+  if (index.fileSet.has(clean) || index.dirSet.has(clean)) return [clean];
+  const suffix = `/${clean}`;
+  const resolved = new Set<string>();
+  for (const f of index.files) {
+    if (f.endsWith(suffix)) resolved.add(f);
+    const dirEnd = f.indexOf(`${suffix}/`);
+    if (dirEnd >= 0) resolved.add(f.slice(0, dirEnd + suffix.length));
+  }
+  return [...resolved];
+}
+
+const PACKAGE_MANAGER_BUILTINS = new Set([
+  "install", "add", "remove", "ci", "init", "exec", "dlx", "link", "publish", "audit", "outdated", "update", "upgrade", "why",
+]);
+
+/** True or false when the command names something checkable (a script, make target or file); null otherwise. */
+function commandExists(index: RepoIndex, command: string): boolean | null {
+  const words = command.split(/\s+/);
+  const [tool, first, second] = words;
+  if (/^(?:\.\/|bin\/)/.test(tool)) return resolvePaths(index, tool).length > 0;
+  if (tool === "make" && first && !first.startsWith("-") && existsSync(join(index.dir, "Makefile"))) {
+    return index.makeTargets.has(first);
+  }
+  if (["npm", "yarn", "pnpm", "bun"].includes(tool) && first && existsSync(join(index.dir, "package.json"))) {
+    const explicit = first === "run" || first === "run-script";
+    const script = explicit ? second : first;
+    if (!script || script.startsWith("-") || PACKAGE_MANAGER_BUILTINS.has(script)) return null;
+    if (explicit || (tool === "npm" && ["test", "start", "stop", "restart"].includes(script))) return index.scripts.has(script);
+    // `yarn jest` may run a script or a package binary; only a script proves it
+    return index.scripts.has(script) ? true : null;
+  }
+  return null;
+}
+
+/** Look up every identifier name not yet known for `index`, in batches of `git grep -o -w -F`. */
+function grepIdentifiers(index: RepoIndex, names: string[]): void {
+  const pending = [...new Set(names)].filter((n) => !index.foundIdentifiers.has(n));
+  for (let i = 0; i < pending.length; i += GREP_BATCH) {
+    const batch = pending.slice(i, i + GREP_BATCH);
+    const output = git(index.dir, ["grep", "-I", "-o", "-h", "-w", "-F", ...batch.flatMap((n) => ["-e", n])]) ?? "";
+    const found = new Set(output.split("\n"));
+    for (const name of batch) index.foundIdentifiers.set(name, found.has(name));
+  }
+}
+
+// ─── Staleness ───
+
+/** 1-based line range of each section in `content`, in order. */
+function sectionLineRanges(content: string, sections: MemorySection[]): Array<[number, number] | null> {
+  const lines = content.split("\n");
+  let cursor = 0;
+  return sections.map((section) => {
+    const sectionLines = section.content.split("\n");
+    const headingLine = sectionLines[0].trim();
+    for (let i = cursor; i < lines.length; i++) {
+      if (lines[i].trim() === headingLine) {
+        cursor = i + 1;
+        return [i + 1, i + sectionLines.length];
+      }
+    }
+    return null;
+  });
+}
+
+/** When the topic's lines last changed: git blame in the workspace, else dated entries, else the file's mtime. */
+function topicUpdatedAt(cwd: string, file: MemoryFile, section: MemorySection, range: [number, number] | null): Date {
+  const relative = join("memory", file.path);
+  if (range) {
+    const blame = git(cwd, ["blame", "--line-porcelain", "-L", `${range[0]},${range[1]}`, "--", relative]);
+    const times = Array.from(blame?.matchAll(/^committer-time (\d+)$/gm) ?? [], (m) => Number(m[1]));
+    if (times.length > 0) return new Date(Math.max(...times) * 1000);
+  }
+  const dated = Array.from(section.content.matchAll(/\b(\d{4}-\d{2}-\d{2})\b/g), (m) => Date.parse(m[1])).filter((t) => !isNaN(t));
+  if (dated.length > 0) return new Date(Math.max(...dated));
+  return statSync(join(cwd, relative)).mtime;
+}
+
+function commitsSince(index: RepoIndex, since: Date, paths: string[]): number {
+  const output = git(index.dir, ["rev-list", "--count", `--since=${since.toISOString()}`, "HEAD", "--", ...paths]);
+  return output ? Number(output.trim()) || 0 : 0;
+}
+
+// ─── Conventions ───
+
+function mentioned(text: string, names: string[]): string[] {
+  const lower = text.toLowerCase();
+  return names.filter((n) => new RegExp(`(?<![\\w-])${n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w-])`).test(lower));
+}
+
+function mergeStrategies(text: string): string[] {
+  const lower = text.toLowerCase();
+  const found: string[] = [];
+  if (/\bsquash[- ]?(?:and[- ])?merg|\bmerge[^.\n]{0,30}\bsquash|\bsquash[^.\n]{0,20}\b(?:prs?|pull requests?)\b/.test(lower)) found.push("squash");
+  if (/\brebase[- ]?(?:and[- ])?merg|\bmerge[^.\n]{0,30}\brebase\b/.test(lower)) found.push("rebase");
+  if (/\bmerge[- ]commits?\b/.test(lower)) found.push("merge-commit");
+  return found;
+}
+
+function findContradictions(section: MemorySection, refs: CodeRef[], conventions: AuditConventions): string[] {
+  const contradictions: string[] = [];
+  const commands = refs.filter((r) => r.kind === "command").map((r) => r.text);
+
+  const checkTool = (key: "test_command" | "linter", families: string[], what: string) => {
+    const configured = conventions[key]?.trim();
+    if (!configured) return;
+    const allowed = mentioned(configured, families);
+    if (allowed.length === 0) return;
+    for (const command of commands) {
+      const used = mentioned(command, families).filter((t) => !allowed.includes(t));
+      if (used.length > 0) contradictions.push(`\`${command}\` ${what}, but conventions.${key} is \`${configured}\``);
+    }
+  };
+  checkTool("test_command", TEST_RUNNERS, "runs tests");
+  checkTool("linter", LINTERS, "lints");
+
+  const strategy = conventions.merge_strategy?.trim().toLowerCase();
+  if (strategy) {
+    const said = mergeStrategies(section.content).filter((s) => s !== strategy);
+    if (said.length > 0) contradictions.push(`mentions ${said.join("/")} merges, but conventions.merge_strategy is \`${strategy}\``);
+  }
+
+  const format = conventions.commit_format?.trim().toLowerCase();
+  const lower = section.content.toLowerCase();
+  if (format && format !== "conventional" && /\bconventional commits?\b/.test(lower)) {
+    contradictions.push(`mentions conventional commits, but conventions.commit_format is \`${format}\``);
+  }
+  if (format === "conventional" && /\bticket[- ](?:number |id )?prefix|\bprefix(?:ed)? (?:commits?|messages?) with the ticket/.test(lower)) {
+    contradictions.push("mentions ticket-prefixed commits, but conventions.commit_format is `conventional`");
+  }
+
+  const template = conventions.pr_template?.trim().replace(/^\.\//, "");
+  if (template) {
+    for (const ref of refs) {
+      if (ref.kind === "path" && /pull_request_template/i.test(ref.text) && !template.endsWith(ref.text) && !ref.text.endsWith(template)) {
+        contradictions.push(`points to \`${ref.text}\`, but conventions.pr_template is \`${template}\``);
+      }
+    }
+  }
+  return contradictions;
+}
+
+// ─── Audit ───
+
+/**
+ * Audit `files` (all memory files by default). A repo file's references are
+ * checked in that repo; DIRECTIVES and ARCHITECTURE references in every repo,
+ * alive when any repo has them. Topics with no dead reference, no churn over
+ * `churnThreshold` and no contradiction are left out of the findings.
+ */
+export function auditMemory(
+  cwd: string,
+  repos: AuditedRepo[],
+  conventions: AuditConventions,
+  options: { files?: MemoryFile[]; churnThreshold?: number } = {}
+): MemoryAuditReport {
+  const churnThreshold = options.churnThreshold ?? DEFAULT_CHURN_THRESHOLD;
+  const indexes = repos.filter((r): r is AuditedRepo & { dir: string } => r.dir !== null).map(indexRepo);
+  const report: MemoryAuditReport = {
+    topics: 0,
+    refsChecked: 0,
+    findings: [],
+    repos: indexes.map((r) => r.name),
+    missingRepos: repos.filter((r) => r.dir === null).map((r) => r.name),
+    churnThreshold,
+  };
+
+  for (const file of options.files ?? listMemoryFiles(cwd)) {
+    const content = readMemory(cwd, file);
+    if (content === null) continue;
+    const isRepoFile = file.path.startsWith("repos");
+    const scope = isRepoFile ? indexes.filter((r) => r.name === file.label) : indexes;
+    const sections = splitMemorySections(file, content);
+    const ranges = sectionLineRanges(content, sections);
+
+    sections.forEach((section, i) => {
+      report.topics++;
+      const refs = extractCodeRefs(section.content);
+      const findings: TopicFindings = { section, dead: [], contradictions: findContradictions(section, refs, conventions) };
+
+      if (scope.length > 0) {
+        const names = refs.filter((r) => r.kind === "identifier").map((r) => identifierName(r.text));
+        for (const index of scope) grepIdentifiers(index, names);
+        const livePaths = new Map<RepoIndex, string[]>();
+        for (const ref of refs) {
+          const results = scope.map((index) => {
+            if (ref.kind === "path") {
+              // Churn is counted on the repo paths the reference resolved to, not on what the topic wrote
+              const resolved = resolvePaths(index, ref.text);
+              if (resolved.length > 0) livePaths.set(index, [...new Set([...(livePaths.get(index) ?? []), ...resolved])]);
+              return resolved.length > 0;
+            }
+            if (ref.kind === "identifier") return index.foundIdentifiers.get(identifierName(ref.text)) ?? null;
+            return commandExists(index, ref.text);
+          });
+          if (results.every((r) => r === null)) continue;
+          report.refsChecked++;
+          if (!results.some((r) => r === true)) findings.dead.push({ ref, repos: scope.map((s) => s.name) });
+        }
+
+        // Churn: commits to the files this topic describes since it last changed
+        if (livePaths.size > 0) {
+          const updatedAt = topicUpdatedAt(cwd, file, section, ranges[i]);
+          let busiest: { commits: number; files: string[] } = { commits: 0, files: [] };
+          for (const [index, paths] of livePaths) {
+            const commits = commitsSince(index, updatedAt, paths);
+            if (commits > busiest.commits) busiest = { commits, files: paths };
+          }
+          if (busiest.commits >= churnThreshold) findings.stale = { updatedAt, ...busiest };
+        }
+      }
+
+      if (findings.dead.length > 0 || findings.stale || findings.contradictions.length > 0) report.findings.push(findings);
+    });
+  }
+  return report;
+}
+
+// ─── Report ───
+
+function topicPath(section: MemorySection): string {
+  return [section.file.label, section.parent, section.heading].filter(Boolean).join(" › ");
+}
+
+export function formatAuditReport(report: MemoryAuditReport): string {
+  const dead = report.findings.filter((f) => f.dead.length > 0);
+  const stale = report.findings.filter((f) => f.stale);
+  const contradicting = report.findings.filter((f) => f.contradictions.length > 0);
+
+  let text = `## 🧹 Memory audit — ${report.topics} topic${report.topics === 1 ? "" : "s"}, ${report.refsChecked} reference${report.refsChecked === 1 ? "" : "s"} checked\n\n`;
+  if (report.repos.length > 0) text += `Checked against: ${report.repos.join(", ")}\n`;
+  if (report.missingRepos.length > 0) {
+    text += `Not cloned under the repos path (references not checked): ${report.missingRepos.join(", ")}\n`;
+  }
+  if (report.findings.length === 0) return `${text}\n✅ No dead references, stale topics or contradictions found.\n`;
+
+  if (dead.length > 0) {
+    text += `\n### 🪦 Dead references — ${dead.length} topic${dead.length === 1 ? "" : "s"}\n\n`;
+    for (const f of dead) {
+      const refs = f.dead.map(({ ref, repos }) => `\`${ref.text}\` (${ref.kind} not found in ${repos.join(", ")})`);
+      text += `- **${topicPath(f.section)}** — ${refs.join(", ")}\n`;
+    }
+  }
+  if (stale.length > 0) {
+    text += `\n### ⏳ Stale topics — ${report.churnThreshold}+ commits since last update\n\n`;
+    for (const f of stale) {
+      const files = f.stale!.files.map((p) => `\`${p}\``).join(", ");
+      text += `- **${topicPath(f.section)}** — updated ${f.stale!.updatedAt.toISOString().slice(0, 10)}; ${f.stale!.commits} commits since in ${files}\n`;
+    }
+  }
+  if (contradicting.length > 0) {
+    text += `\n### ⚔️ Contradictions with project.yml conventions — ${contradicting.length} topic${contradicting.length === 1 ? "" : "s"}\n\n`;
+    for (const f of contradicting) text += `- **${topicPath(f.section)}** — ${f.contradictions.join("; ")}\n`;
+  }
+  return text;
+}
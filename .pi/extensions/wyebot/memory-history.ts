@@ -0,0 +1,343 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { randomBytes } from "crypto";
+import { dirname, join, relative, resolve } from "path";
+import {
+  parseMemoryDocument,
+  readMemory,
+  restoreMemoryTopic,
+  type MemoryFile,
+  type TopicWrite,
+} from "./memory";
+
+// ─── Memory history ───
+//
+// Every memory write made through wyebot — the memory tools, the agent's
+// write/edit calls on memory files, rollbacks — is appended to
+// <workspace>/.pi/memory-history.jsonl with the whole file before and after.
+// The log is per-user (gitignored) like .pi/sessions/ and is never rewritten;
+// a rollback is one more entry. Topic history is read from the file snapshots,
+// so it covers free-hand edits too.
+
+export type MemoryChangeSource = "memory_upsert" | "memory_delete_topic" | "write" | "edit" | "rollback";
+
+export interface MemoryChange {
+  /** Short random id, for /memory-rollback --to. */
+  id: string;
+  /** ISO timestamp. */
+  at: string;
+  sessionId: string | null;
+  /** Path relative to memory/, e.g. "repos/my-backend.md". */
+  file: string;
+  source: MemoryChangeSource;
+  /** For rollbacks: the change that was undone, and the topic when only that topic was restored. */
+  rollbackOf?: string;
+  rollbackTopic?: string;
+  /** Whole file before and after the write; null when it did not exist. */
+  before: string | null;
+  after: string | null;
+}
+
+export function getMemoryHistoryPath(cwd: string): string {
+  return join(cwd, ".pi", "memory-history.jsonl");
+}
+
+/** The memory file at a tool's `path` argument (relative to `cwd`, or absolute); null for anything else. */
+export function memoryFileAt(cwd: string, path: string): MemoryFile | null {
+  const memoryDir = join(cwd, "memory");
+  const rel = relative(memoryDir, resolve(cwd, path.trim().replace(/^@/, ""))).split("\\").join("/");
+  const match = rel.match(/^(?:(DIRECTIVES|ARCHITECTURE)|repos\/([\w.-]+))\.md$/);
+  if (!match) return null;
+  return { path: rel, label: match[1] ?? match[2] };
+}
+
+/** Append one change to the log; nothing is written when the file did not change. */
+export function recordMemoryChange(cwd: string, change: Omit<MemoryChange, "id" | "at">): MemoryChange | null {
+  if (change.before === change.after) return null;
+  const entry: MemoryChange = { id: randomBytes(4).toString("hex"), at: new Date().toISOString(), ...change };
+  const logPath = getMemoryHistoryPath(cwd);
+  mkdirSync(dirname(logPath), { recursive: true });
+  appendFileSync(logPath, `${JSON.stringify(entry)}\n`);
+  return entry;
+}
+
+/** Run `write` on `file` and record what it changed. */
+export function recordedMemoryWrite<T>(
+  cwd: string,
+  file: MemoryFile,
+  origin: Pick<MemoryChange, "sessionId" | "source" | "rollbackOf" | "rollbackTopic">,
+  write: () => T
+): T {
+  const before = readMemory(cwd, file);
+  const result = write();
+  recordMemoryChange(cwd, { ...origin, file: file.path, before, after: readMemory(cwd, file) });
+  return result;
+}
+
+/** Logged changes, oldest first, of one file or all of them. Unreadable lines are skipped. */
+export function readMemoryHistory(cwd: string, file?: MemoryFile): MemoryChange[] {
+  const logPath = getMemoryHistoryPath(cwd);
+  if (!existsSync(logPath)) return [];
+  const changes: MemoryChange[] = [];
+  for (const line of readFileSync(logPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const change = JSON.parse(line) as MemoryChange;
+      if (!file || change.file === file.path) changes.push(change);
+    } catch {
+      continue;
+    }
+  }
+  return changes;
+}
+
+// ─── Topic changes ───
+
+export interface TopicChange {
+  section: string | null;
+  heading: string;
+  /** Topic body before and after; null when the topic did not exist. */
+  before: string | null;
+  after: string | null;
+}
+
+function topicBodies(content: string | null): Map<string, { section: string | null; heading: string; body: string }> {
+  const topics = new Map<string, { section: string | null; heading: string; body: string }>();
+  if (content === null) return topics;
+  for (const section of parseMemoryDocument(content).sections) {
+    for (const topic of section.topics) {
+      topics.set(`${section.heading ?? ""}\n${topic.heading}`.toLowerCase(), {
+        section: section.heading,
+        heading: topic.heading,
+        body: topic.body,
+      });
+    }
+  }
+  return topics;
+}
+
+/** Topics a change created, edited or removed, in file order. */
+export function topicChanges(change: MemoryChange): TopicChange[] {
+  const before = topicBodies(change.before);
+  const after = topicBodies(change.after);
+  const changed: TopicChange[] = [];
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const b = before.get(key);
+    const a = after.get(key);
+    if (b?.body === a?.body) continue;
+    const { section, heading } = (a ?? b)!;
+    changed.push({ section, heading, before: b?.body ?? null, after: a?.body ?? null });
+  }
+  return changed;
+}
+
+function sameTopic(change: TopicChange, topic: string, section?: string): boolean {
+  const same = (a: string | null, b: string) => a !== null && a.trim().toLowerCase() === b.trim().toLowerCase();
+  return same(change.heading, topic) && (!section || same(change.section, section));
+}
+
+/** "Section › Topic" (or "Section > Topic") from command args; a bare topic has no section. */
+export function parseTopicRef(ref: string): { topic: string; section?: string } {
+  const parts = ref.split(/\s+[›>]\s+/);
+  if (parts.length < 2) return { topic: ref.trim() };
+  return { section: parts[0].trim(), topic: parts.slice(1).join(" › ").trim() };
+}
+
+/** Sections holding a topic named `topic` in `history`, when that is more than one. */
+export function ambiguousTopicError(history: Array<{ topic: TopicChange }>, topic: string): string | null {
+  const sections = [...new Set(history.map((h) => h.topic.section))];
+  if (sections.length < 2) return null;
+  return `"${topic}" is a topic in ${sections.map((s) => `"${s ?? "(top of file)"}"`).join(" and ")} — name the section, e.g. "${sections[0] ?? ""} › ${topic}".`;
+}
+
+/** Changes of one topic in `changes`, oldest first. */
+export function topicHistory(
+  changes: MemoryChange[],
+  topic: string,
+  section?: string
+): Array<{ change: MemoryChange; topic: TopicChange }> {
+  return changes.flatMap((change) =>
+    topicChanges(change)
+      .filter((t) => sameTopic(t, topic, section))
+      .map((t) => ({ change, topic: t }))
+  );
+}
+
+// ─── Rollback ───
+
+/** `id` or a prefix of it; `--to` takes the first characters shown by /memory-history. */
+function findChange(changes: MemoryChange[], id: string): MemoryChange | { error: string } {
+  const matches = changes.filter((c) => c.id.startsWith(id.trim()));
+  if (matches.length === 0) return { error: `No change "${id}" in the history of this file.` };
+  if (matches.length > 1) return { error: `"${id}" matches ${matches.length} changes — give more of the id.` };
+  return matches[0];
+}
+
+/**
+ * Changes that are not rollbacks and have not been rolled back. A file
+ * rollback also undoes the changes to that file between its target and itself.
+ */
+function undoable(changes: MemoryChange[]): (change: MemoryChange) => boolean {
+  const undone = new Set<string>();
+  changes.forEach((rollback, i) => {
+    if (!rollback.rollbackOf) return;
+    const start = changes.findIndex((c) => c.id === rollback.rollbackOf);
+    if (start < 0) return;
+    const range = rollback.rollbackTopic === undefined ? changes.slice(start, i) : [changes[start]];
+    for (const c of range) if (c.file === rollback.file) undone.add(c.id);
+  });
+  return (change) => change.source !== "rollback" && !undone.has(change.id);
+}
+
+/** The latest undoable item, so repeated rollbacks walk back in time. */
+function latestUndoable<T extends { change: MemoryChange }>(items: T[], changes: MemoryChange[]): T | undefined {
+  const isUndoable = undoable(changes);
+  return [...items].reverse().find((i) => isUndoable(i.change));
+}
+
+export interface FileRollback {
+  target: MemoryChange;
+  /** Changes to the file after `target`, undone along with it. */
+  discarded: number;
+}
+
+/** The change a file rollback would undo: `id`, or the latest one not yet undone. */
+export function planFileRollback(cwd: string, file: MemoryFile, id?: string): FileRollback | { error: string } {
+  const changes = readMemoryHistory(cwd, file);
+  let target: MemoryChange | undefined;
+  if (id) {
+    const found = findChange(changes, id);
+    if ("error" in found) return found;
+    target = found;
+  } else {
+    target = latestUndoable(changes.map((change) => ({ change })), changes)?.change;
+  }
+  if (!target) return { error: `No recorded changes to undo in memory/${file.path}.` };
+  return { target, discarded: changes.slice(changes.indexOf(target) + 1).filter(undoable(changes)).length };
+}
+
+/**
+ * Put `file` back as it was before `plan.target`; a file the change created
+ * is removed. Returns an error when there is nothing to restore.
+ */
+export function rollbackMemoryFile(
+  cwd: string,
+  file: MemoryFile,
+  plan: FileRollback,
+  sessionId: string | null
+): string | null {
+  const fullPath = join(cwd, "memory", file.path);
+  if (readMemory(cwd, file) === plan.target.before) return `memory/${file.path} is already as it was.`;
+  recordedMemoryWrite(cwd, file, { sessionId, source: "rollback", rollbackOf: plan.target.id }, () => {
+    if (plan.target.before === null) {
+      unlinkSync(fullPath);
+    } else {
+      mkdirSync(dirname(fullPath), { recursive: true });
+      writeFileSync(fullPath, plan.target.before);
+    }
+  });
+  return null;
+}
+
+/**
+ * Put one topic back as it was before change `id`, or before its latest
+ * change not yet undone, in the section it was in. The rest of the file is
+ * left alone.
+ */
+export function rollbackMemoryTopic(
+  cwd: string,
+  file: MemoryFile,
+  topic: string,
+  options: { id?: string; section?: string; sessionId: string | null }
+): (TopicWrite & { target: MemoryChange }) | { error: string } {
+  const changes = readMemoryHistory(cwd, file);
+  const history = topicHistory(changes, topic, options.section);
+  const ambiguous = ambiguousTopicError(history, topic);
+  if (ambiguous) return { error: ambiguous };
+  let item: (typeof history)[number] | undefined;
+  if (options.id) {
+    const found = findChange(changes, options.id);
+    if ("error" in found) return found;
+    item = history.find((h) => h.change === found);
+    if (!item) return { error: `Change ${found.id} did not touch "${topic}".` };
+  } else {
+    item = latestUndoable(history, changes);
+  }
+  if (!item) return { error: `No recorded changes to undo for "${topic}" in memory/${file.path}.` };
+
+  const { change: target, topic: changed } = item;
+  const origin = {
+    sessionId: options.sessionId,
+    source: "rollback" as const,
+    rollbackOf: target.id,
+    rollbackTopic: changed.heading,
+  };
+  const current = topicBodies(readMemory(cwd, file)).get(`${changed.section ?? ""}\n${changed.heading}`.toLowerCase());
+  if ((current?.body ?? null) === changed.before) return { error: `"${changed.heading}" is already as it was.` };
+
+  const result = recordedMemoryWrite(cwd, file, origin, () =>
+    restoreMemoryTopic(cwd, file, changed.section, changed.heading, changed.before)
+  );
+  return "error" in result ? result : { ...result, target };
+}
+
+// ─── Formatting ───
+
+function shortDate(iso: string): string {
+  return iso.replace("T", " ").replace(/:\d\d\.\d+Z$/, "");
+}
+
+function lineDiff(before: string | null, after: string | null): string[] {
+  const old = (before ?? "").split("\n").filter((l) => l.trim());
+  const now = (after ?? "").split("\n").filter((l) => l.trim());
+  return [
+    ...old.filter((l) => !now.includes(l)).map((l) => `- ${l}`),
+    ...now.filter((l) => !old.includes(l)).map((l) => `+ ${l}`),
+  ];
+}
+
+function describeChange(change: MemoryChange): string {
+  const session = change.sessionId ? ` · session ${change.sessionId.slice(0, 8)}` : "";
+  const source = change.rollbackOf ? `rollback of ${change.rollbackOf}` : change.source;
+  return `\`${change.id}\` ${shortDate(change.at)} · ${source}${session}`;
+}
+
+function topicVerb(t: TopicChange): string {
+  return t.before === null ? "created" : t.after === null ? "deleted" : "edited";
+}
+
+function describeTopicChange(t: TopicChange): string {
+  return `${t.section ? `${t.section} › ` : ""}${t.heading} (${topicVerb(t)})`;
+}
+
+/** Changes per file, newest first, listing the topics each touched. */
+export function formatMemoryHistory(changes: MemoryChange[], limit: number): string {
+  if (changes.length === 0) return "No memory changes recorded yet.";
+  const shown = changes.slice(-limit).reverse();
+  let text = `## 🕰️ Memory history — ${changes.length} change${changes.length === 1 ? "" : "s"}`;
+  if (shown.length < changes.length) text += ` (latest ${shown.length})`;
+  text += "\n";
+  for (const change of shown) {
+    const topics = topicChanges(change);
+    text += `\n- ${describeChange(change)} · memory/${change.file}`;
+    text += topics.length > 0 ? `\n  ${topics.map(describeTopicChange).join(", ")}` : "\n  (outside the topics)";
+  }
+  text += "\n\nUse `/memory-history <file> <topic>` for a topic's changes, `/memory-rollback <file> [topic] [--to <id>]` to undo.";
+  return text;
+}
+
+/** One topic's changes, newest first, with the lines each removed and added. */
+export function formatTopicHistory(
+  file: MemoryFile,
+  topic: string,
+  history: Array<{ change: MemoryChange; topic: TopicChange }>
+): string {
+  if (history.length === 0) return `No recorded changes to "${topic}" in memory/${file.path}.`;
+  let text = `## 🕰️ ${file.label} › ${history[history.length - 1].topic.heading} — ${history.length} change${history.length === 1 ? "" : "s"}\n`;
+  for (const { change, topic: t } of [...history].reverse()) {
+    const diff = lineDiff(t.before, t.after);
+    text += `\n### ${describeChange(change)} — ${topicVerb(t)}\n`;
+    // Four backticks, so fences inside the topic don't close the diff
+    text += diff.length > 0 ? `\n\`\`\`\`diff\n${diff.join("\n")}\n\`\`\`\`\n` : "\n(whitespace only)\n";
+  }
+  return text;
+}
@@ -0,0 +1,238 @@
+import { statSync } from "fs";
+import { join } from "path";
+import { listMemoryFiles, readMemory, splitMemorySections, type MemoryFile, type MemorySection } from "./memory";
+
+// ─── Memory search index ───
+//
+// BM25 over memory topics (every ## section and ### topic with real content),
+// built locally from the markdown files. Each file's part of the index is kept
+// in memory with the file's mtime and size, and rebuilt only when those
+// change. Query terms that aren't in the index match indexed terms they
+// prefix or are one or two edits away from, at a lower weight.
+
+const K1 = 1.2;
+const B = 0.75;
+/** Heading words count this many times — a topic named for the query is the best hit. */
+const HEADING_WEIGHT = 3;
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHT = 0.5;
+/** Indexed terms one query term may expand to. */
+const MAX_EXPANSIONS = 8;
+const MIN_PREFIX_LENGTH = 3;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "has", "have", "was", "were", "this", "that",
+  "with", "from", "into", "when", "what", "which", "who", "how", "use", "used", "uses", "its", "our", "out", "per",
+  "via", "than", "then", "there", "their", "they", "them", "these", "those", "will", "would", "should", "could", "been",
+  "also", "only", "just", "more", "most", "some", "such", "each", "other", "about", "over", "under", "does", "did",
+]);
+
+// ─── Terms ───
+
+/** Plurals and -ing/-ed endings, so "tokens" finds "token" and "caching" finds "cache". */
+function stem(word: string): string {
+  if (word.length <= 4 || /\d/.test(word)) return word;
+  let w = word;
+  if (w.endsWith("ies")) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("s") && !w.endsWith("ss") && !w.endsWith("us")) w = w.slice(0, -1);
+  if (w.length > 5 && w.endsWith("ing")) w = w.slice(0, -3);
+  else if (w.length > 4 && w.endsWith("ed")) w = w.slice(0, -2);
+  if (w.length > 4 && w.endsWith("e")) w = w.slice(0, -1);
+  return w;
+}
+
+/** Words of `text`, lowercased and stemmed; camelCase and snake_case names also give their parts. */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_]+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(/[\s_]+/)
+      .filter(Boolean);
+    const words = parts.length > 1 ? [word.replace(/_/g, ""), ...parts] : parts;
+    for (const w of words) {
+      const lower = w.toLowerCase();
+      if (lower.length < 2 || STOPWORDS.has(lower)) continue;
+      terms.push(stem(lower));
+    }
+  }
+  return terms;
+}
+
+/** Edit distance counting a swap of neighbours as one edit, or `max + 1` once it is known to exceed `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// ─── Index ───
+
+interface IndexedTopic {
+  section: MemorySection;
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  topics: IndexedTopic[];
+}
+
+/** By absolute file path; shared by every search in the process. */
+const indexedFiles = new Map<string, IndexedFile>();
+
+function indexTopic(section: MemorySection): IndexedTopic {
+  const terms = [
+    ...Array<string[]>(HEADING_WEIGHT).fill(tokenize(section.heading)).flat(),
+    ...tokenize(section.content.split("\n").slice(1).join("\n")),
+  ];
+  const frequencies = new Map<string, number>();
+  for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+  return { section, frequencies, length: terms.length };
+}
+
+/** The topics of `files`, re-reading only files whose mtime or size changed since the last call. */
+function loadTopics(cwd: string, files: MemoryFile[]): { topics: IndexedTopic[]; rebuilt: number } {
+  const topics: IndexedTopic[] = [];
+  let rebuilt = 0;
+  for (const file of files) {
+    const fullPath = join(cwd, "memory", file.path);
+    let stat;
+    try {
+      stat = statSync(fullPath);
+    } catch {
+      indexedFiles.delete(fullPath);
+      continue;
+    }
+    let entry = indexedFiles.get(fullPath);
+    if (!entry || entry.mtimeMs !== stat.mtimeMs || entry.size !== stat.size) {
+      const content = readMemory(cwd, file) ?? "";
+      entry = { mtimeMs: stat.mtimeMs, size: stat.size, topics: splitMemorySections(file, content).map(indexTopic) };
+      indexedFiles.set(fullPath, entry);
+      rebuilt++;
+    }
+    topics.push(...entry.topics);
+  }
+  return { topics, rebuilt };
+}
+
+// ─── Search ───
+
+export interface MemoryHit {
+  section: MemorySection;
+  score: number;
+  /** Query words that matched, and the indexed terms they matched as. */
+  matchedQueryTerms: string[];
+  matchedTerms: string[];
+}
+
+export interface MemorySearchResult {
+  hits: MemoryHit[];
+  /** Topics searched, and files re-indexed for this search. */
+  topics: number;
+  rebuilt: number;
+}
+
+/** Indexed terms `term` stands for: itself, terms it prefixes, terms within edit distance; with their weights. */
+function expandTerm(term: string, vocabulary: Set<string>, fuzzy: boolean): Map<string, number> {
+  const expansions = new Map<string, number>();
+  if (vocabulary.has(term)) expansions.set(term, 1);
+  if (!fuzzy) return expansions;
+  const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  const candidates: Array<[string, number]> = [];
+  for (const indexed of vocabulary) {
+    if (indexed === term) continue;
+    if (term.length >= MIN_PREFIX_LENGTH && indexed.startsWith(term)) candidates.push([indexed, PREFIX_WEIGHT]);
+    else if (maxEdits > 0 && editDistance(term, indexed, maxEdits) <= maxEdits) candidates.push([indexed, FUZZY_WEIGHT]);
+  }
+  // Closest spellings first: prefix matches, then by length difference
+  candidates.sort((a, b) => b[1] - a[1] || Math.abs(a[0].length - term.length) - Math.abs(b[0].length - term.length));
+  for (const [indexed, weight] of candidates.slice(0, MAX_EXPANSIONS)) expansions.set(indexed, weight);
+  return expansions;
+}
+
+/**
+ * Rank the topics of `files` (all memory files by default) against `query`
+ * with BM25. Every query word counts on its own, scored by its best match in
+ * the topic; with `fuzzy` (the default) that may be a term it prefixes or
+ * nearly spells. Topics without any match are left out.
+ */
+export function searchMemory(
+  cwd: string,
+  query: string,
+  options: { files?: MemoryFile[]; limit?: number; fuzzy?: boolean } = {}
+): MemorySearchResult {
+  const { topics, rebuilt } = loadTopics(cwd, options.files ?? listMemoryFiles(cwd));
+  const queryTerms = [...new Set(tokenize(query))];
+  if (topics.length === 0 || queryTerms.length === 0) return { hits: [], topics: topics.length, rebuilt };
+
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+  for (const topic of topics) {
+    totalLength += topic.length;
+    for (const term of topic.frequencies.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const averageLength = totalLength / topics.length;
+  const vocabulary = new Set(documentFrequency.keys());
+  const expansions = queryTerms.map((term) => expandTerm(term, vocabulary, options.fuzzy !== false));
+
+  const bm25 = (topic: IndexedTopic, term: string) => {
+    const tf = topic.frequencies.get(term) ?? 0;
+    if (tf === 0) return 0;
+    const df = documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (topics.length - df + 0.5) / (df + 0.5));
+    return (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * topic.length) / averageLength));
+  };
+
+  const hits: MemoryHit[] = [];
+  for (const topic of topics) {
+    let score = 0;
+    const matchedQueryTerms: string[] = [];
+    const matchedTerms: string[] = [];
+    queryTerms.forEach((queryTerm, i) => {
+      let best = 0;
+      let bestTerm = "";
+      for (const [term, weight] of expansions[i]) {
+        const termScore = weight * bm25(topic, term);
+        if (termScore > best) {
+          best = termScore;
+          bestTerm = term;
+        }
+      }
+      if (best === 0) return;
+      score += best;
+      matchedQueryTerms.push(queryTerm);
+      matchedTerms.push(bestTerm);
+    });
+    if (score > 0) hits.push({ section: topic.section, score, matchedQueryTerms, matchedTerms });
+  }
+  hits.sort((a, b) => b.score - a.score);
+  return { hits: options.limit ? hits.slice(0, options.limit) : hits, topics: topics.length, rebuilt };
+}
+
+/** Lines of a hit's topic that hold one of its matched terms, by index into its content lines. */
+export function matchingLineIndices(hit: MemoryHit): number[] {
+  const terms = new Set(hit.matchedTerms);
+  return hit.section.content
+    .split("\n")
+    .flatMap((line, i) => (tokenize(line).some((t) => terms.has(t)) ? [i] : []));
+}
@@ -0,0 +1,452 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+// ─── Memory files ───
+
+export interface MemoryFile {
+  /** Path relative to memory/, e.g. "repos/my-backend.md". */
+  path: string;
+  /** DIRECTIVES, ARCHITECTURE or the repo name. */
+  label: string;
+}
+
+/** DIRECTIVES.md, ARCHITECTURE.md and every memory/repos/*.md, in that order. */
+export function listMemoryFiles(cwd: string): MemoryFile[] {
+  const files: MemoryFile[] = [
+    { path: "DIRECTIVES.md", label: "DIRECTIVES" },
+    { path: "ARCHITECTURE.md", label: "ARCHITECTURE" },
+  ];
+  const reposDir = join(cwd, "memory", "repos");
+  if (existsSync(reposDir)) {
+    for (const f of readdirSync(reposDir)) {
+      if (f.endsWith(".md")) {
+        files.push({ path: join("repos", f), label: f.replace(".md", "") });
+      }
+    }
+  }
+  return files;
+}
+
+export function readMemory(cwd: string, file: MemoryFile): string | null {
+  const fullPath = join(cwd, "memory", file.path);
+  return existsSync(fullPath) ? readFileSync(fullPath, "utf-8") : null;
+}
+
+// ─── Snippets ───
+
+export interface MemoryLineMatches {
+  file: MemoryFile;
+  lines: string[];
+  matchIndices: number[];
+}
+
+/** Matching lines (marked >>>) with `contextLines` around them; overlapping ranges are merged. */
+export function formatMatchSnippets({ lines, matchIndices }: MemoryLineMatches, contextLines: number): string[] {
+  const ranges: Array<[number, number]> = [];
+  for (const idx of matchIndices) {
+    const start = Math.max(0, idx - contextLines);
+    const end = Math.min(lines.length - 1, idx + contextLines);
+    if (ranges.length > 0 && start <= ranges[ranges.length - 1][1] + 1) {
+      ranges[ranges.length - 1][1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+  return ranges.map(([start, end]) =>
+    lines
+      .slice(start, end + 1)
+      .map((line, i) => `${matchIndices.includes(start + i) ? ">>>" : "   "} ${line}`)
+      .join("\n")
+  );
+}
+
+// ─── Sections ───
+
+export interface MemorySection {
+  file: MemoryFile;
+  /** "Testing Standards" — the ## or ### heading text. */
+  heading: string;
+  /** The ## section a ### topic sits in; null for ## sections and top-of-file topics. */
+  parent: string | null;
+  /** Heading line and body. */
+  content: string;
+}
+
+/** Bodies that only hold the /onboard placeholder or a blockquote note carry no knowledge. */
+function isPlaceholder(body: string): boolean {
+  const text = body
+    .split("\n")
+    .filter((l) => l.trim() && !l.trim().startsWith(">"))
+    .join("\n")
+    .trim();
+  return !text || /^\[(?:Detected by|Populated by|not yet)[^\]]*\]$/i.test(text);
+}
+
+/** Split a memory file at its ## and ### headings; the preamble and placeholder sections are dropped. */
+export function splitMemorySections(file: MemoryFile, content: string): MemorySection[] {
+  const sections: MemorySection[] = [];
+  const add = (marker: string, heading: string, parent: string | null, body: string) => {
+    if (!isPlaceholder(body)) sections.push({ file, heading, parent, content: `${marker} ${heading}\n${body}`.trim() });
+  };
+  for (const section of parseMemoryDocument(content).sections) {
+    if (section.heading !== null) add("##", section.heading, null, section.intro);
+    for (const topic of section.topics) add("###", topic.heading, section.heading, topic.body);
+  }
+  return sections;
+}
+
+// ─── Topics ───
+//
+// A memory file is a title, then ## sections, each holding ### topics. Topic
+// writes go through this model rather than free-hand edits: the file is
+// parsed, one topic changes, and it is written back in the same layout. A
+// write that would change anything else in the file is refused.
+
+export interface MemoryTopic {
+  /** The ### heading text, e.g. "Authentication". */
+  heading: string;
+  /** Lines under the heading, without trailing blank lines. */
+  body: string;
+}
+
+export interface MemoryDocumentSection {
+  /** The ## heading text; null for topics above the first ## heading. */
+  heading: string | null;
+  /** Text between the ## heading and its first topic. */
+  intro: string;
+  topics: MemoryTopic[];
+}
+
+export interface MemoryDocument {
+  /** Title and notes above the first heading. */
+  preamble: string;
+  sections: MemoryDocumentSection[];
+}
+
+const FENCE = /^\s*(```|~~~)/;
+
+/** Parse ## sections and ### topics; headings inside code fences are text. */
+export function parseMemoryDocument(content: string): MemoryDocument {
+  const doc: MemoryDocument = { preamble: "", sections: [] };
+  let lines: string[] = [];
+  let assign = (text: string) => {
+    doc.preamble = text;
+  };
+  let inFence = false;
+  for (const line of content.replace(/\r\n/g, "\n").split("\n")) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const match = inFence ? null : line.match(/^(#{2,3})\s+(.+?)\s*$/);
+    if (!match) {
+      lines.push(line);
+      continue;
+    }
+    assign(lines.join("\n").trimEnd());
+    lines = [];
+    if (match[1] === "##") {
+      const section: MemoryDocumentSection = { heading: match[2], intro: "", topics: [] };
+      doc.sections.push(section);
+      assign = (text) => {
+        section.intro = text;
+      };
+    } else {
+      let section = doc.sections[doc.sections.length - 1];
+      if (!section) {
+        section = { heading: null, intro: "", topics: [] };
+        doc.sections.push(section);
+      }
+      const topic: MemoryTopic = { heading: match[2], body: "" };
+      section.topics.push(topic);
+      assign = (text) => {
+        topic.body = text;
+      };
+    }
+  }
+  assign(lines.join("\n").trimEnd());
+  return doc;
+}
+
+/** One blank line between blocks, none after a heading unless the body has one, a final newline. */
+export function serializeMemoryDocument(doc: MemoryDocument): string {
+  const block = (heading: string, body: string) => (body ? `${heading}\n${body}` : heading);
+  const blocks: string[] = [];
+  if (doc.preamble.trim()) blocks.push(doc.preamble);
+  for (const section of doc.sections) {
+    if (section.heading !== null) blocks.push(block(`## ${section.heading}`, section.intro));
+    for (const topic of section.topics) blocks.push(block(`### ${topic.heading}`, topic.body));
+  }
+  return `${blocks.join("\n\n")}\n`;
+}
+
+const FILE_TITLES: Record<string, string> = {
+  DIRECTIVES: "# Project Directives",
+  ARCHITECTURE: "# Project Architecture",
+};
+
+/** Where new topics go when no section is named — the sections the memory templates keep for them. */
+function defaultSection(file: MemoryFile): string {
+  return file.label === "DIRECTIVES" ? "Learned Patterns" : "Discovered Patterns";
+}
+
+/**
+ * "DIRECTIVES", "ARCHITECTURE" or a repo name; "memory/" prefixes and ".md"
+ * suffixes are accepted. A repo file that does not exist yet resolves only
+ * for one of `knownRepos`.
+ */
+export function resolveMemoryFile(cwd: string, ref: string, knownRepos: string[] = []): MemoryFile | { error: string } {
+  const name = ref
+    .trim()
+    .replace(/^memory\//, "")
+    .replace(/^repos\//, "")
+    .replace(/\.md$/, "");
+  const special = Object.keys(FILE_TITLES).find((f) => f.toLowerCase() === name.toLowerCase());
+  if (special) return { path: `${special}.md`, label: special };
+  if (!/^[\w.-]+$/.test(name)) return { error: `"${ref}" is not a memory file name.` };
+  const existing = listMemoryFiles(cwd).find((f) => f.label === name);
+  if (existing || knownRepos.includes(name)) return { path: join("repos", `${name}.md`), label: name };
+  const repos = listMemoryFiles(cwd)
+    .filter((f) => f.path.startsWith("repos"))
+    .map((f) => f.label);
+  return {
+    error: `No memory file for "${ref}". Use DIRECTIVES, ARCHITECTURE or a repo: ${[...new Set([...repos, ...knownRepos])].join(", ") || "none configured"}.`,
+  };
+}
+
+function loadDocument(cwd: string, file: MemoryFile): MemoryDocument {
+  const content = readMemory(cwd, file);
+  return content === null
+    ? { preamble: FILE_TITLES[file.label] ?? `# ${file.label}`, sections: [] }
+    : parseMemoryDocument(content);
+}
+
+function sameHeading(a: string | null, b: string): boolean {
+  return a !== null && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+interface TopicLocation {
+  section: MemoryDocumentSection;
+  index: number;
+}
+
+/** Topics named `topic`, within `section` when one is given. */
+function findTopics(doc: MemoryDocument, topic: string, section?: string): TopicLocation[] {
+  return doc.sections
+    .filter((s) => !section || sameHeading(s.heading, section))
+    .flatMap((s) => s.topics.map((t, index) => ({ section: s, index, heading: t.heading })))
+    .filter((t) => sameHeading(t.heading, topic));
+}
+
+function describeSection(section: MemoryDocumentSection): string {
+  return section.heading === null ? "(top of file)" : `"${section.heading}"`;
+}
+
+/** Topic content may not open other sections or leave a fence open; either would swallow what follows. */
+function contentError(content: string): string | null {
+  if (!content.trim()) return "Content is empty — use memory_delete_topic to remove a topic.";
+  let inFence = false;
+  for (const line of content.split("\n")) {
+    if (FENCE.test(line)) inFence = !inFence;
+    else if (!inFence && /^#{1,3}\s/.test(line)) {
+      return `Content may not contain # to ### headings ("${line.trim()}") — that would start another section. Use #### or bold text inside a topic, or one upsert per topic.`;
+    }
+  }
+  if (inFence) return "Content leaves a code fence open — it would swallow the sections after it.";
+  return null;
+}
+
+function topicHeadingError(topic: string): string | null {
+  if (!topic.trim()) return "Topic name is empty.";
+  if (/[\n\r]/.test(topic) || topic.trim().startsWith("#")) return `"${topic}" is not a topic name — give the heading text without #.`;
+  return null;
+}
+
+/** Everything in `doc` except the topic at `skip`, in order, for comparing before and after a write. */
+function outline(doc: MemoryDocument, skip?: { section: string | null; heading: string }): string[] {
+  const entries = [`preamble\n${doc.preamble.trim()}`];
+  for (const section of doc.sections) {
+    if (section.heading !== null) entries.push(`## ${section.heading}\n${section.intro}`);
+    for (const topic of section.topics) {
+      if (skip && section.heading === skip.section && topic.heading === skip.heading) continue;
+      entries.push(`### ${section.heading}\n${topic.heading}\n${topic.body}`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Write `doc` to `file` only if, read back, nothing but the topic `changed`
+ * differs from `before` (a section created for it aside). Returns an error
+ * when it would.
+ */
+function writeDocument(
+  cwd: string,
+  file: MemoryFile,
+  before: MemoryDocument,
+  doc: MemoryDocument,
+  changed: { section: string | null; heading: string },
+  createdSection: boolean
+): string | null {
+  const text = serializeMemoryDocument(doc);
+  const expected = outline(before, changed);
+  if (createdSection) expected.push(`## ${changed.section}\n`);
+  const actual = outline(parseMemoryDocument(text), changed);
+  if (expected.length !== actual.length || expected.some((e, i) => e !== actual[i])) {
+    return `Refusing to write ${file.path}: the change would alter other sections of the file.`;
+  }
+  const fullPath = join(cwd, "memory", file.path);
+  mkdirSync(dirname(fullPath), { recursive: true });
+  writeFileSync(fullPath, text);
+  return null;
+}
+
+export interface TopicWrite {
+  file: MemoryFile;
+  section: string | null;
+  topic: string;
+  action: "created" | "replaced" | "appended" | "deleted";
+}
+
+/**
+ * Create or update one ### topic. An existing topic (matched by heading,
+ * case-insensitively) is replaced, or added to with `append`; a new one goes
+ * at the end of `section`, by default the file's patterns section, which is
+ * created when missing.
+ */
+export function upsertMemoryTopic(
+  cwd: string,
+  file: MemoryFile,
+  topic: string,
+  content: string,
+  options: { section?: string; append?: boolean } = {}
+): TopicWrite | { error: string } {
+  const invalid = topicHeadingError(topic) ?? contentError(content);
+  if (invalid) return { error: invalid };
+
+  const before = loadDocument(cwd, file);
+  const doc = loadDocument(cwd, file);
+  const matches = findTopics(doc, topic, options.section);
+  if (matches.length > 1) {
+    return {
+      error: `"${topic}" is a topic in ${matches.map((m) => describeSection(m.section)).join(" and ")} — name the section.`,
+    };
+  }
+
+  const body = content.trim();
+  if (matches.length === 1) {
+    const { section, index } = matches[0];
+    const existing = section.topics[index];
+    const append = options.append && existing.body.trim() && !isPlaceholder(existing.body);
+    existing.body = append ? `${existing.body}\n${body}` : body;
+    const error = writeDocument(cwd, file, before, doc, { section: section.heading, heading: existing.heading }, false);
+    if (error) return { error };
+    return { file, section: section.heading, topic: existing.heading, action: append ? "appended" : "replaced" };
+  }
+
+  const sectionName = options.section?.trim() || defaultSection(file);
+  let section = doc.sections.find((s) => sameHeading(s.heading, sectionName));
+  const createdSection = !section;
+  if (!section) {
+    section = { heading: sectionName, intro: "", topics: [] };
+    doc.sections.push(section);
+  }
+  const heading = topic.trim();
+  section.topics.push({ heading, body });
+  const error = writeDocument(cwd, file, before, doc, { section: section.heading, heading }, createdSection);
+  if (error) return { error };
+  return { file, section: section.heading, topic: heading, action: "created" };
+}
+
+/** Remove one ### topic and its content. */
+export function deleteMemoryTopic(
+  cwd: string,
+  file: MemoryFile,
+  topic: string,
+  section?: string
+): TopicWrite | { error: string } {
+  if (readMemory(cwd, file) === null) return { error: `memory/${file.path} does not exist.` };
+  const before = loadDocument(cwd, file);
+  const doc = loadDocument(cwd, file);
+  const matches = findTopics(doc, topic, section);
+  if (matches.length === 0) {
+    return { error: `No topic "${topic}" in memory/${file.path}${section ? ` under "${section}"` : ""}.` };
+  }
+  if (matches.length > 1) {
+    return {
+      error: `"${topic}" is a topic in ${matches.map((m) => describeSection(m.section)).join(" and ")} — name the section.`,
+    };
+  }
+  const { section: owner, index } = matches[0];
+  const [removed] = owner.topics.splice(index, 1);
+  const error = writeDocument(cwd, file, before, doc, { section: owner.heading, heading: removed.heading }, false);
+  if (error) return { error };
+  return { file, section: owner.heading, topic: removed.heading, action: "deleted" };
+}
+
+/**
+ * Put one topic back to `body` (null removes it) in exactly `section` — null
+ * for the topics above the first ## heading. Unlike upsert, an empty body is
+ * kept as a heading-only topic, and a missing section is an error rather than
+ * created. Used by /memory-rollback.
+ */
+export function restoreMemoryTopic(
+  cwd: string,
+  file: MemoryFile,
+  section: string | null,
+  topic: string,
+  body: string | null
+): TopicWrite | { error: string } {
+  const invalid = topicHeadingError(topic) ?? (body?.trim() ? contentError(body) : null);
+  if (invalid) return { error: invalid };
+
+  const before = loadDocument(cwd, file);
+  const doc = loadDocument(cwd, file);
+  let owner = doc.sections.find((s) => (section === null ? s.heading === null : sameHeading(s.heading, section)));
+  if (!owner && section === null && body !== null) {
+    owner = { heading: null, intro: "", topics: [] };
+    doc.sections.unshift(owner);
+  }
+  if (!owner) return { error: `Section "${section}" no longer exists in memory/${file.path}.` };
+
+  const matches = owner.topics.filter((t) => sameHeading(t.heading, topic));
+  if (matches.length > 1) return { error: `"${topic}" appears more than once in ${describeSection(owner)}.` };
+  const existing = matches[0];
+  let action: TopicWrite["action"];
+  if (body === null) {
+    if (!existing) return { error: `No topic "${topic}" in ${describeSection(owner)} of memory/${file.path}.` };
+    owner.topics.splice(owner.topics.indexOf(existing), 1);
+    action = "deleted";
+  } else if (existing) {
+    existing.body = body.trimEnd();
+    action = "replaced";
+  } else {
+    owner.topics.push({ heading: topic.trim(), body: body.trimEnd() });
+    action = "created";
+  }
+  const heading = existing?.heading ?? topic.trim();
+  const error = writeDocument(cwd, file, before, doc, { section: owner.heading, heading }, false);
+  if (error) return { error };
+  return { file, section: owner.heading, topic: heading, action };
+}
+
+export interface TopicSummary {
+  heading: string;
+  lines: number;
+  /** Only the /onboard placeholder so far. */
+  placeholder: boolean;
+}
+
+/** Sections and topics of `file`; null when it does not exist. */
+export function listMemoryTopics(
+  cwd: string,
+  file: MemoryFile
+): Array<{ heading: string | null; topics: TopicSummary[] }> | null {
+  const content = readMemory(cwd, file);
+  if (content === null) return null;
+  return parseMemoryDocument(content).sections.map((section) => ({
+    heading: section.heading,
+    topics: section.topics.map((t) => ({
+      heading: t.heading,
+      lines: t.body.split("\n").filter((l) => l.trim()).length,
+      placeholder: isPlaceholder(t.body),
+    })),
+  }));
+}
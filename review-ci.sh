@@ -0,0 +1,28 @@
+#!/bin/bash
+# review-ci — Headless parallel review for CI pipelines.
+# Runs /review-ci in pi print mode from this workspace and exits with its
+# gate result: 0 passed, 1 blocking findings, 2 review could not run.
+#
+#   ./review-ci.sh --repo my-repo --base main --head feat/x --fail-on warning
+#   ./review-ci.sh --repo my-repo --pr 42 --out build/review
+
+PI_BIN="${PI_BIN:-pi}"
+
+if ! command -v "$PI_BIN" &> /dev/null; then
+  echo "Pi not found at '$PI_BIN'. Set PI_BIN or add pi to your PATH." >&2
+  exit 2
+fi
+
+# /review-ci gets one command line split on whitespace, so a quoted value
+# with a space would turn into extra arguments
+for arg in "$@"; do
+  case "$arg" in
+    *[[:space:]]*)
+      echo "review-ci: '$arg' contains whitespace; paths and refs with spaces are not supported." >&2
+      exit 2
+      ;;
+  esac
+done
+
+cd "$(dirname "$0")" || exit 2
+exec "$PI_BIN" -p --no-session "/review-ci $*"
@@ -0,0 +1,86 @@
+/**
+ * Runs the publish-to-PR flow against the fake `gh` next to this file and
+ * checks the exact payload sent to `gh api --input`: diff positions, findings
+ * outside the diff going to the summary, and `commit_id` anchored to the PR's
+ * current head even when the review was of an older one.
+ *
+ *   npx jiti scripts/fake-gh/check-publish.ts
+ */
+
+import { execFile } from "node:child_process";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { mapDiffPositions, offerPublishToPr } from "../../.pi/extensions/review-engine/publish";
+import type { ConsolidatedFinding, ReviewTarget } from "../../.pi/extensions/review-engine/types";
+
+const FAKE_GH_DIR = path.dirname(path.resolve(process.argv[1]));
+const REVIEWED_HEAD = "1111111111111111111111111111111111111111";
+const CURRENT_HEAD = "2222222222222222222222222222222222222222";
+
+function finding(file: string, line: number, title: string): ConsolidatedFinding {
+  return { file, line, title, severity: "warning", category: "bug", description: `${title} description`, agents: ["a", "b"], consensusScore: 2 };
+}
+
+async function main() {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "fake-gh-"));
+  const capture = path.join(workDir, "payload.json");
+  fs.writeFileSync(path.join(workDir, "project.yml"), "agent:\n  services:\n    comment_on_prs: true\n");
+  const env = { ...process.env, PATH: `${FAKE_GH_DIR}${path.delimiter}${process.env.PATH}`, FAKE_GH_HEAD: CURRENT_HEAD, FAKE_GH_CAPTURE: capture };
+
+  // pi.exec as pi runs it: the command resolved from PATH, never rejecting
+  const pi = {
+    exec: (command: string, args: string[]) =>
+      new Promise<{ stdout: string; stderr: string; code: number }>((resolve) => {
+        execFile(command, args, { env }, (error, stdout, stderr) => {
+          resolve({ stdout, stderr, code: error ? (typeof error.code === "number" ? error.code : 1) : 0 });
+        });
+      }),
+  };
+  const confirms: string[] = [];
+  const notes: string[] = [];
+  const ctx = {
+    cwd: workDir,
+    hasUI: true,
+    ui: {
+      confirm: async (title: string) => (confirms.push(title), true),
+      notify: (message: string) => notes.push(message),
+    },
+  };
+
+  const diff = fs.readFileSync(path.join(FAKE_GH_DIR, "pr.diff"), "utf-8");
+  const positions = mapDiffPositions(diff);
+  assert.deepEqual([...positions.get("src/a.ts")!], [[1, 1], [2, 3], [3, 4], [4, 5], [11, 7], [12, 9]]);
+  assert.deepEqual([...positions.get("src/b.ts")!], [[1, 1], [2, 2]]);
+
+  const findings = [
+    finding("src/a.ts", 3, "Added line"),
+    finding("src/a.ts", 12, "Second hunk"),
+    finding("src/b.ts", 2, "New file"),
+    finding("src/a.ts", 8, "Unchanged line"),
+    finding("src/c.ts", 1, "Untouched file"),
+  ];
+  const target = { prNumber: 1, repoSlug: "fake/repo", headSha: REVIEWED_HEAD } as ReviewTarget;
+  await offerPublishToPr(pi as never, ctx as never, target, findings, 2);
+
+  assert.deepEqual(confirms, ["Publish to GitHub?", "PR changed since the review"]);
+  assert.ok(fs.existsSync(capture), `no payload captured; notices: ${notes.join(" | ")}`);
+  const payload = JSON.parse(fs.readFileSync(capture, "utf-8"));
+  assert.equal(payload.commit_id, CURRENT_HEAD);
+  assert.deepEqual(
+    payload.comments.map((c: { path: string; position: number }) => [c.path, c.position]),
+    [["src/a.ts", 4], ["src/a.ts", 9], ["src/b.ts", 2]],
+  );
+  assert.match(payload.body, /3 inline comment\(s\) · 2 outside the diff/);
+  assert.match(payload.body, /`src\/a\.ts:8` — \*\*Unchanged line\*\*/);
+  assert.match(payload.body, /`src\/c\.ts:1` — \*\*Untouched file\*\*/);
+
+  fs.rmSync(workDir, { recursive: true, force: true });
+  console.log("publish flow OK: positions, out-of-diff summary and commit_id match");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});